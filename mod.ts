@@ -74,7 +74,7 @@
  *    │  ├─ [0] (null): null
  *       │  ├─ [1] (undefined): undefined
  *       │  └─ [2] (symbol): Symbol(unique)
- *       └─ method (function)
+ *       └─ method (function arrow method/0)
  * ```
  *
  * ### Log the object root only
@@ -110,3 +110,9 @@
  */
 
 export * from "./src/object-property-tree.ts";
+export * from "./src/diff.ts";
+export * from "./src/query.ts";
+export * from "./src/renderers.ts";
+export * from "./src/serialize.ts";
+export * from "./src/streaming.ts";
+export * from "./src/transform.ts";
@@ -0,0 +1,168 @@
+// --- Types ---
+
+/**
+ * Styles a piece of formatted text, e.g. by wrapping it in ANSI escape codes.
+ * Functions from libraries such as `@std/fmt/colors` can be used directly.
+ */
+export type ColorStyle = (text: string) => string;
+
+/**
+ * The styles used for each part of a colorized tree. Parts without a style are
+ * left unstyled.
+ */
+export interface ColorTheme {
+	/** Property names, e.g. `name` in `name (string): "Alice"`. */
+	name?: ColorStyle;
+
+	/** Type labels, including the parentheses and any class name. */
+	type?: ColorStyle;
+
+	/**
+	 * Annotations and reference ids, e.g. `[non-enumerable] <ref *1>`, and the
+	 * summaries of elided children, e.g. `… 10 more items`.
+	 */
+	annotations?: ColorStyle;
+
+	/** Tree connectors and indentation, e.g. `├─ ` and `│  `. */
+	connector?: ColorStyle;
+
+	/** String values. */
+	string?: ColorStyle;
+
+	/** Number values, including `NaN` and `Infinity`. */
+	number?: ColorStyle;
+
+	/** Bigint values. */
+	bigint?: ColorStyle;
+
+	/** Boolean values. */
+	boolean?: ColorStyle;
+
+	/** Symbol values. */
+	symbol?: ColorStyle;
+
+	/** The `undefined` value. */
+	undefined?: ColorStyle;
+
+	/** The `null` value. */
+	null?: ColorStyle;
+
+	/** Date values. */
+	date?: ColorStyle;
+
+	/** Regular expression values. */
+	regexp?: ColorStyle;
+
+	/**
+	 * The `[Circular Reference]` and `[Shared Reference]` markers. The
+	 * `[Truncated]` and `[Redacted]` markers use the `annotations` style.
+	 */
+	reference?: ColorStyle;
+
+	/** The `[Access Error]` and `[Rejected]` markers. */
+	error?: ColorStyle;
+
+	/**
+	 * The `[Getter]`, `[Setter]` and `[Getter/Setter]` markers, and the
+	 * `[Pending]` and `[Timed Out]` markers for unresolved Promises.
+	 */
+	accessor?: ColorStyle;
+}
+
+/**
+ * Internal interface for the parts of the Deno and Node.js globals used to
+ * detect whether standard output supports color.
+ */
+interface RuntimeGlobals {
+	Deno?: {
+		noColor: boolean;
+		stdout: { isTerminal(): boolean };
+	};
+	process?: {
+		env: Record<string, string | undefined>;
+		stdout?: { isTTY?: boolean };
+	};
+}
+
+// --- Themes ---
+
+/**
+ * Creates a style that wraps text in ANSI SGR escape codes.
+ * @param codes - The SGR parameters, e.g. `1` for bold or `32` for green.
+ * @returns The style.
+ */
+function ansi(...codes: number[]): ColorStyle {
+	return (text) => `\x1b[${codes.join(";")}m${text}\x1b[0m`;
+}
+
+/** The default color theme, designed for dark terminal backgrounds. */
+export const DEFAULT_COLOR_THEME: Readonly<ColorTheme> = {
+	name: ansi(1),
+	type: ansi(90),
+	annotations: ansi(90),
+	connector: ansi(90),
+	string: ansi(32),
+	number: ansi(33),
+	bigint: ansi(33),
+	boolean: ansi(33),
+	symbol: ansi(32),
+	undefined: ansi(90),
+	null: ansi(1),
+	date: ansi(35),
+	regexp: ansi(31),
+	reference: ansi(36),
+	error: ansi(1, 31),
+	accessor: ansi(36),
+};
+
+/** A color theme using darker colors, for light terminal backgrounds. */
+export const LIGHT_COLOR_THEME: Readonly<ColorTheme> = {
+	name: ansi(1),
+	type: ansi(2),
+	annotations: ansi(2),
+	connector: ansi(2),
+	string: ansi(32),
+	number: ansi(34),
+	bigint: ansi(34),
+	boolean: ansi(34),
+	symbol: ansi(32),
+	undefined: ansi(2),
+	null: ansi(1),
+	date: ansi(35),
+	regexp: ansi(31),
+	reference: ansi(35),
+	error: ansi(1, 31),
+	accessor: ansi(35),
+};
+
+/** The built-in themes, keyed by the names accepted by `FormatOptions.theme`. */
+export const COLOR_THEMES: Readonly<Record<"default" | "light", Readonly<ColorTheme>>> = {
+	default: DEFAULT_COLOR_THEME,
+	light: LIGHT_COLOR_THEME,
+};
+
+// --- Color Detection ---
+
+/**
+ * Determines whether standard output should be colorized: it must be a
+ * terminal, and the `NO_COLOR` environment variable must not be set
+ * (see https://no-color.org). Supports Deno and Node.js; other runtimes
+ * get no color.
+ * @param runtime - The global object to read `Deno` or `process` from.
+ * @returns `true` if output should be colorized.
+ */
+export function shouldUseColor(
+	runtime: RuntimeGlobals = globalThis as RuntimeGlobals,
+): boolean {
+	try {
+		if (runtime.Deno) {
+			return !runtime.Deno.noColor && runtime.Deno.stdout.isTerminal();
+		}
+		if (runtime.process) {
+			return !runtime.process.env.NO_COLOR && runtime.process.stdout?.isTTY === true;
+		}
+	} catch {
+		// Treat a runtime that won't let us inspect stdout as having no color.
+	}
+	return false;
+}
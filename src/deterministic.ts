@@ -0,0 +1,155 @@
+import { formatJsonPointer, formatJsPath, getSegmentName } from "./paths.ts";
+import { walkPropertyTree } from "./query.ts";
+import { mapPropertyTree } from "./transform.ts";
+import type { PathSegment, PropertyTreeNode } from "./types.ts";
+
+// --- Constants ---
+
+/** The well-known symbols, such as `Symbol.iterator`, which are the same in every run. */
+const WELL_KNOWN_SYMBOLS: ReadonlySet<symbol> = new Set(
+	Object.getOwnPropertyNames(Symbol)
+		.map((name) => (Symbol as unknown as Record<string, unknown>)[name])
+		.filter((value): value is symbol => typeof value === "symbol"),
+);
+
+// --- Key Order ---
+
+/**
+ * Compares two property keys for `deterministic` builds: string keys come
+ * first, in code unit order (so the order doesn't depend on the locale),
+ * followed by symbol keys, ordered by description.
+ * @param a - The first key.
+ * @param b - The second key.
+ * @returns A negative number if `a` comes first, a positive number if `b`
+ * does, or `0` if they can't be told apart.
+ */
+export function compareKeys(a: string | symbol, b: string | symbol): number {
+	if (typeof a !== typeof b) {
+		return typeof a === "string" ? -1 : 1;
+	}
+	const left = typeof a === "symbol" ? a.description ?? "" : a;
+	const right = typeof b === "symbol" ? b.description ?? "" : b;
+	return left < right ? -1 : left > right ? 1 : 0;
+}
+
+// --- Normalization ---
+
+/**
+ * Returns the stand-in for a unique symbol: `Symbol(#1)` for the first unique
+ * symbol seen, `Symbol(#2)` for the next, and so on. Registered symbols (from
+ * `Symbol.for`) and well-known symbols are returned as they are.
+ * @param symbol - The symbol.
+ * @param replacements - The stand-ins assigned so far, by symbol.
+ * @returns The stand-in.
+ */
+function normalizeSymbol(symbol: symbol, replacements: Map<symbol, symbol>): symbol {
+	if (Symbol.keyFor(symbol) !== undefined || WELL_KNOWN_SYMBOLS.has(symbol)) {
+		return symbol;
+	}
+	let replacement = replacements.get(symbol);
+	if (!replacement) {
+		replacement = Symbol(`#${replacements.size + 1}`);
+		replacements.set(symbol, replacement);
+	}
+	return replacement;
+}
+
+/**
+ * Replaces the unique symbol in a path segment, if any, with its stand-in.
+ * @param segment - The path segment: a symbol key, or a Map key.
+ * @param replacements - The stand-ins assigned so far, by symbol.
+ * @returns The segment itself if it holds no unique symbol, or a new one.
+ */
+function normalizeSegment(
+	segment: PathSegment,
+	replacements: Map<symbol, symbol>,
+): PathSegment {
+	if (typeof segment === "symbol") {
+		return normalizeSymbol(segment, replacements);
+	}
+	if (typeof segment === "object" && typeof segment.mapKey === "symbol") {
+		const mapKey = normalizeSymbol(segment.mapKey, replacements);
+		return mapKey === segment.mapKey ? segment : { mapKey };
+	}
+	return segment;
+}
+
+/**
+ * Normalizes the run-specific details of a tree in place, as described in
+ * `normalizePropertyTree`.
+ * @param tree - The root node of the tree.
+ */
+export function normalizeTree(tree: PropertyTreeNode): void {
+	const refIds = new Map<number, number>();
+	const symbols = new Map<symbol, symbol>();
+	const jsPaths = new Map<string, string>();
+
+	// Number references and symbols in the order they appear in the output, and
+	// work out every node's new path before references to it are rewritten.
+	walkPropertyTree(tree, (node) => {
+		for (const id of [node.refId, node.reference?.id]) {
+			if (id !== undefined && !refIds.has(id)) {
+				refIds.set(id, refIds.size + 1);
+			}
+		}
+		if (node.path) {
+			const path = node.path.map((segment) => normalizeSegment(segment, symbols));
+			if (path.some((segment, i) => segment !== node.path?.[i])) {
+				const jsPath = formatJsPath(tree.name, path);
+				if (node.jsPath !== undefined) {
+					jsPaths.set(node.jsPath, jsPath);
+				}
+				if (path.at(-1) !== node.path.at(-1)) {
+					node.name = getSegmentName(path[path.length - 1]);
+				}
+				node.path = path;
+				node.jsPath = jsPath;
+				node.jsonPointer = formatJsonPointer(path);
+			}
+		}
+		if (node.type === "symbol" && typeof node.value === "symbol") {
+			node.value = normalizeSymbol(node.value, symbols);
+		}
+	});
+
+	walkPropertyTree(tree, (node) => {
+		if (node.refId !== undefined) {
+			node.refId = refIds.get(node.refId);
+		}
+		if (node.reference) {
+			const { id, path } = node.reference;
+			node.reference = { ...node.reference, path: jsPaths.get(path) ?? path };
+			if (id !== undefined) {
+				node.reference.id = refIds.get(id);
+			}
+		}
+	});
+}
+
+/**
+ * Returns a copy of a property tree with the details that vary from run to run
+ * made stable, for snapshots and comparisons:
+ *
+ * - reference ids (see `PropertyTreeNode.refId`) are renumbered in the order
+ *   they appear in the output, starting from 1;
+ * - unique symbols, in values, keys and paths, are replaced with stand-ins
+ *   numbered in order of appearance, `Symbol(#1)`, `Symbol(#2)` and so on, as
+ *   their descriptions often hold counters or ids, and never identify them.
+ *   Registered symbols (from `Symbol.for`) and well-known symbols such as
+ *   `Symbol.iterator` are kept.
+ *
+ * Trees built with `deterministic: true` are already normalized. The original
+ * tree is left untouched.
+ *
+ * ```ts
+ * const stable = normalizePropertyTree(buildPropertyTree(obj, { includeSymbols: true }));
+ * ```
+ *
+ * @param tree - The root node of the tree to normalize.
+ * @returns The root of the normalized tree.
+ */
+export function normalizePropertyTree(tree: PropertyTreeNode): PropertyTreeNode {
+	const copy = mapPropertyTree(tree, (node) => node);
+	normalizeTree(copy);
+	return copy;
+}
@@ -0,0 +1,523 @@
+import {
+	formatNodeAnnotations,
+	formatNodeLabel,
+	formatNodeName,
+	formatNodeValue,
+	formatTypeLabel,
+	getChildIndent,
+	getColorTheme,
+	getConnector,
+	getValueStyle,
+	paint,
+} from "./format.ts";
+import {
+	type FormatOptions,
+	type KeyOrder,
+	type ResolvedFormatOptions,
+	resolveFormatOptions,
+} from "./options.ts";
+import { orderChildren } from "./ordering.ts";
+import { formatJsPath } from "./paths.ts";
+import type { FunctionInfo, PropertyTreeNode } from "./types.ts";
+
+// --- Types ---
+
+/**
+ * How a node differs between two property trees:
+ * - `"unchanged"`: present in both with the same type and value.
+ * - `"added"`: only present in the `after` tree.
+ * - `"removed"`: only present in the `before` tree.
+ * - `"changed"`: present in both with the same type, but a different value
+ *   (including markers such as `[Circular Reference]`) or class name.
+ * - `"type-changed"`: present in both with different types. The children of
+ *   type-changed nodes are not compared.
+ */
+export type DiffStatus =
+	| "unchanged"
+	| "added"
+	| "removed"
+	| "changed"
+	| "type-changed";
+
+/**
+ * A node in the unified tree produced by `diffPropertyTrees`, combining the
+ * matching nodes of the `before` and `after` trees. Checking its `status`
+ * narrows which of `before` and `after` are present.
+ */
+export type PropertyTreeDiffNode = AddedDiffNode | RemovedDiffNode | MatchedDiffNode;
+
+/** The fields shared by every `PropertyTreeDiffNode`. */
+export interface DiffNodeFields {
+	/** The node's name. */
+	name: string;
+
+	/**
+	 * The path to the node, rendered as a JavaScript property access starting
+	 * from the `before` tree's root name, e.g. `root.user.roles[1]`.
+	 */
+	path: string;
+
+	/**
+	 * The compared children, for nodes present in both trees with the same type.
+	 * Empty otherwise, including when either side wasn't expanded (e.g. because it
+	 * was at the depth limit).
+	 */
+	children: PropertyTreeDiffNode[];
+}
+
+/** A `PropertyTreeDiffNode` only present in the `after` tree. */
+export interface AddedDiffNode extends DiffNodeFields {
+	/** How the node differs between the two trees. */
+	status: "added";
+
+	/** Absent, as added nodes aren't in the `before` tree. */
+	before?: undefined;
+
+	/** The node in the `after` tree. */
+	after: PropertyTreeNode;
+}
+
+/** A `PropertyTreeDiffNode` only present in the `before` tree. */
+export interface RemovedDiffNode extends DiffNodeFields {
+	/** How the node differs between the two trees. */
+	status: "removed";
+
+	/** The node in the `before` tree. */
+	before: PropertyTreeNode;
+
+	/** Absent, as removed nodes aren't in the `after` tree. */
+	after?: undefined;
+}
+
+/** A `PropertyTreeDiffNode` present in both trees, whether modified or not. */
+export interface MatchedDiffNode extends DiffNodeFields {
+	/** How the node differs between the two trees. */
+	status: "unchanged" | "changed" | "type-changed";
+
+	/** The node in the `before` tree. */
+	before: PropertyTreeNode;
+
+	/** The node in the `after` tree. */
+	after: PropertyTreeNode;
+}
+
+/**
+ * A node present in both trees, paired for `PropertyTreeDiff.changed` and
+ * `PropertyTreeDiff.typeChanged`.
+ */
+export interface PropertyTreeNodePair {
+	/** The node in the `before` tree. */
+	before: PropertyTreeNode;
+
+	/** The node in the `after` tree. */
+	after: PropertyTreeNode;
+}
+
+/**
+ * The result of `diffPropertyTrees`: the unified diff tree, plus every
+ * difference keyed by path (see `PropertyTreeDiffNode.path`).
+ */
+export interface PropertyTreeDiff {
+	/** The root of the unified diff tree. */
+	root: PropertyTreeDiffNode;
+
+	/** Nodes only present in the `after` tree. Their descendants are not listed separately. */
+	added: Map<string, PropertyTreeNode>;
+
+	/** Nodes only present in the `before` tree. Their descendants are not listed separately. */
+	removed: Map<string, PropertyTreeNode>;
+
+	/** Nodes whose value or class name changed. */
+	changed: Map<string, PropertyTreeNodePair>;
+
+	/** Nodes whose type changed. */
+	typeChanged: Map<string, PropertyTreeNodePair>;
+}
+
+/** Line prefixes used by `formatPropertyTreeDiff` for each status. */
+const DIFF_MARKERS: Record<DiffStatus, string> = {
+	unchanged: "  ",
+	added: "+ ",
+	removed: "- ",
+	changed: "~ ",
+	"type-changed": "~ ",
+};
+
+// --- Internal Helper Functions ---
+
+/**
+ * Returns the key used to match a node with its counterpart in the other tree:
+ * its name, plus an occurrence count for repeated names (which can happen for
+ * Map entries with object keys, e.g. `<object> =>`).
+ * @param nodes - The sibling nodes.
+ * @returns The match key of each node, in order.
+ */
+function getMatchKeys(nodes: readonly PropertyTreeNode[]): string[] {
+	const counts = new Map<string, number>();
+	return nodes.map((node) => {
+		const count = counts.get(node.name) ?? 0;
+		counts.set(node.name, count + 1);
+		return count === 0 ? node.name : `${node.name}#${count}`;
+	});
+}
+
+/**
+ * Determines whether two nodes of the same type hold the same value. Values are
+ * compared with `Object.is`, which also covers the circular reference and access
+ * error markers; references must point to the same path, and class names,
+ * error descriptions, custom summaries and function details must match.
+ * Children are not compared.
+ * @param before - The node in the `before` tree.
+ * @param after - The node in the `after` tree.
+ * @returns `true` if the nodes are equivalent.
+ */
+function nodesEqual(before: PropertyTreeNode, after: PropertyTreeNode): boolean {
+	return Object.hasOwn(before, "value") === Object.hasOwn(after, "value") &&
+		Object.is(before.value, after.value) &&
+		before.reference?.kind === after.reference?.kind &&
+		before.reference?.path === after.reference?.path &&
+		before.className === after.className &&
+		before.error === after.error &&
+		before.summary === after.summary &&
+		before.hasNullPrototype === after.hasNullPrototype &&
+		functionInfoEqual(before.functionInfo, after.functionInfo);
+}
+
+/**
+ * Determines whether two function descriptions match.
+ * @param before - The description in the `before` tree, if any.
+ * @param after - The description in the `after` tree, if any.
+ * @returns `true` if both are missing, or have the same fields.
+ */
+function functionInfoEqual(before?: FunctionInfo, after?: FunctionInfo): boolean {
+	return before?.name === after?.name &&
+		before?.arity === after?.arity &&
+		before?.kind === after?.kind &&
+		before?.source === after?.source;
+}
+
+/**
+ * Renders the path of a node for use as a `PropertyTreeDiff` key. Uses the
+ * node's recorded `path` when present, otherwise appends its name to its parent's path.
+ * @param node - The node.
+ * @param parentPath - The rendered path of the node's parent.
+ * @param rootName - The name of the `before` tree's root.
+ * @returns The rendered path.
+ */
+function getDiffPath(
+	node: PropertyTreeNode,
+	parentPath: string,
+	rootName: string,
+): string {
+	if (node.path) {
+		return formatJsPath(rootName, node.path);
+	}
+	return node.name.startsWith("[")
+		? `${parentPath}${node.name}`
+		: `${parentPath}.${node.name}`;
+}
+
+/**
+ * Recursively compares two matching nodes and their children, recording
+ * every difference in `diff`.
+ * @param before - The node in the `before` tree.
+ * @param after - The node in the `after` tree.
+ * @param path - The rendered path of the nodes.
+ * @param rootName - The name of the `before` tree's root.
+ * @param diff - The diff being built.
+ * @returns The unified diff node.
+ */
+function diffNodes(
+	before: PropertyTreeNode,
+	after: PropertyTreeNode,
+	path: string,
+	rootName: string,
+	diff: Omit<PropertyTreeDiff, "root">,
+): MatchedDiffNode {
+	const diffNode: MatchedDiffNode = {
+		status: "unchanged",
+		name: after.name,
+		path,
+		before,
+		after,
+		children: [],
+	};
+
+	if (before.type !== after.type) {
+		diffNode.status = "type-changed";
+		diff.typeChanged.set(path, { before, after });
+		return diffNode;
+	}
+	if (!nodesEqual(before, after)) {
+		diffNode.status = "changed";
+		diff.changed.set(path, { before, after });
+	}
+
+	// Only compare children if both sides were expanded. A node that wasn't
+	// expanded on one side (e.g. at the depth limit) has nothing to compare.
+	const beforeChildren = before.children;
+	const afterChildren = after.children;
+	if (!beforeChildren || !afterChildren) {
+		return diffNode;
+	}
+
+	const afterKeys = getMatchKeys(afterChildren);
+	const afterByKey = new Map(
+		afterKeys.map((key, index) => [key, afterChildren[index]]),
+	);
+	const matchedKeys = new Set<string>();
+
+	// Children of the `before` node, in order: matched or removed.
+	getMatchKeys(beforeChildren).forEach((key, index) => {
+		const beforeChild = beforeChildren[index];
+		const afterChild = afterByKey.get(key);
+		const childPath = getDiffPath(afterChild ?? beforeChild, path, rootName);
+		if (afterChild) {
+			matchedKeys.add(key);
+			diffNode.children.push(
+				diffNodes(beforeChild, afterChild, childPath, rootName, diff),
+			);
+		} else {
+			diff.removed.set(childPath, beforeChild);
+			diffNode.children.push({
+				status: "removed",
+				name: beforeChild.name,
+				path: childPath,
+				before: beforeChild,
+				children: [],
+			});
+		}
+	});
+
+	// Then the children only present in the `after` node.
+	afterKeys.forEach((key, index) => {
+		if (matchedKeys.has(key)) {
+			return;
+		}
+		const afterChild = afterChildren[index];
+		const childPath = getDiffPath(afterChild, path, rootName);
+		diff.added.set(childPath, afterChild);
+		diffNode.children.push({
+			status: "added",
+			name: afterChild.name,
+			path: childPath,
+			after: afterChild,
+			children: [],
+		});
+	});
+
+	return diffNode;
+}
+
+/**
+ * Formats the label of a node present in both trees whose value or type changed,
+ * e.g. `count (number): 1 → 2` or `id (number → string): 1 → "1"`. Each part
+ * is styled like in `formatNodeLabel` when colors are enabled.
+ * @param before - The node in the `before` tree.
+ * @param after - The node in the `after` tree.
+ * @param options - The resolved format options.
+ * @returns The label.
+ */
+function formatChangeLabel(
+	before: PropertyTreeNode,
+	after: PropertyTreeNode,
+	options: ResolvedFormatOptions,
+): string {
+	const beforeType = formatTypeLabel(before, options);
+	const afterType = formatTypeLabel(after, options);
+	const typeLabel = beforeType === afterType
+		? afterType
+		: `${beforeType} → ${afterType}`;
+
+	const theme = getColorTheme(options);
+	const formatValue = (node: PropertyTreeNode) => {
+		const value = formatNodeValue(node, options);
+		return value === undefined
+			? paint("(none)", theme?.annotations)
+			: paint(value, theme && getValueStyle(node, theme));
+	};
+	const valueLabel = formatNodeValue(before, options) === undefined &&
+			formatNodeValue(after, options) === undefined
+		? ""
+		: `: ${formatValue(before)} → ${formatValue(after)}`;
+
+	const annotations = formatNodeAnnotations(after);
+	return paint(formatNodeName(after), theme?.name) +
+		(options.showTypes ? " " + paint(`(${typeLabel})`, theme?.type) : "") +
+		// Annotations start with a space, which is left unstyled.
+		(annotations ? " " + paint(annotations.slice(1), theme?.annotations) : "") +
+		valueLabel;
+}
+
+/**
+ * Recursively formats a whole subtree of an added or removed node, marking every line.
+ * @param node - The node to format.
+ * @param marker - The line prefix, e.g. `+ `.
+ * @param options - The resolved format options.
+ * @param indent - The indentation string to use for the current level.
+ * @param isLast - Whether the node is the last sibling at its level.
+ * @param lines - The output lines.
+ */
+function formatSubtreeLines(
+	node: PropertyTreeNode,
+	marker: string,
+	options: ResolvedFormatOptions,
+	indent: string,
+	isLast: boolean,
+	lines: string[],
+): void {
+	lines.push(
+		marker + indent + getConnector(isLast, options) + formatNodeLabel(node, options),
+	);
+	const children = orderChildren(node, options.order);
+	const childIndent = indent + getChildIndent(isLast, options);
+	children.forEach((child, index) => {
+		formatSubtreeLines(
+			child,
+			marker,
+			options,
+			childIndent,
+			index === children.length - 1,
+			lines,
+		);
+	});
+}
+
+/**
+ * Recursively formats a unified diff node and its children.
+ * @param diffNode - The diff node to format.
+ * @param options - The resolved format options.
+ * @param indent - The indentation string to use for the current level.
+ * @param isLast - Whether the node is the last sibling at its level.
+ * @param lines - The output lines.
+ */
+function formatDiffNodeLines(
+	diffNode: PropertyTreeDiffNode,
+	options: ResolvedFormatOptions,
+	indent: string,
+	isLast: boolean,
+	lines: string[],
+): void {
+	const marker = DIFF_MARKERS[diffNode.status];
+
+	if (diffNode.status === "added") {
+		formatSubtreeLines(diffNode.after, marker, options, indent, isLast, lines);
+		return;
+	}
+	if (diffNode.status === "removed") {
+		formatSubtreeLines(diffNode.before, marker, options, indent, isLast, lines);
+		return;
+	}
+
+	const { status, before, after } = diffNode;
+	const label = status === "unchanged"
+		? formatNodeLabel(after, options)
+		: formatChangeLabel(before, after, options);
+	lines.push(marker + indent + getConnector(isLast, options) + label);
+
+	const childIndent = indent + getChildIndent(isLast, options);
+	const children = orderDiffChildren(after, diffNode.children, options.order);
+	children.forEach((child, index) => {
+		formatDiffNodeLines(
+			child,
+			options,
+			childIndent,
+			index === children.length - 1,
+			lines,
+		);
+	});
+}
+
+/**
+ * Orders the children of a diff node like `orderChildren`, each by the node
+ * it refers to: its node in the `after` tree, or in the `before` tree if it
+ * was removed.
+ * @param parent - The diff node's node in the `after` tree.
+ * @param children - The diff node's children.
+ * @param order - The order to apply.
+ * @returns The ordered children: the given array for `"insertion"` or fewer
+ * than two children, and a new array otherwise.
+ */
+function orderDiffChildren(
+	parent: PropertyTreeNode,
+	children: PropertyTreeDiffNode[],
+	order: KeyOrder,
+): PropertyTreeDiffNode[] {
+	if (order === "insertion" || children.length < 2) {
+		return children;
+	}
+	const diffChildren = new Map(
+		children.map((child) => [child.after ?? child.before, child]),
+	);
+	const ordered = orderChildren({ ...parent, children: [...diffChildren.keys()] }, order);
+	return ordered.flatMap((node) => diffChildren.get(node) ?? []);
+}
+
+// --- Public API Functions ---
+
+/**
+ * Compares two property trees, typically built from the same object before
+ * and after a mutation, and returns their structural differences.
+ *
+ * Children are matched by name. Nodes are only compared as deep as both trees
+ * were built: build them with the same `maxDepth`, since a node that wasn't
+ * expanded on either side has no children to compare. Circular reference and
+ * access error markers are compared like values, so a property that starts or
+ * stops being circular is reported as changed.
+ *
+ * ```ts
+ * const before = buildPropertyTree(state, 3);
+ * reducer(state, action);
+ * const after = buildPropertyTree(state, 3);
+ * console.log(formatPropertyTreeDiff(diffPropertyTrees(before, after)));
+ * ```
+ *
+ * @param before - The root node of the earlier tree.
+ * @param after - The root node of the later tree.
+ * @returns The unified diff tree and the differences keyed by path.
+ */
+export function diffPropertyTrees(
+	before: PropertyTreeNode,
+	after: PropertyTreeNode,
+): PropertyTreeDiff {
+	const diff: Omit<PropertyTreeDiff, "root"> = {
+		added: new Map(),
+		removed: new Map(),
+		changed: new Map(),
+		typeChanged: new Map(),
+	};
+	const root = diffNodes(before, after, before.name, before.name, diff);
+	return { root, ...diff };
+}
+
+/**
+ * Formats a diff produced by `diffPropertyTrees` as a unified tree, using the
+ * same layout as `formatPropertyTreeToString`. Each line is prefixed with `+`
+ * (added), `-` (removed), `~` (changed, shown as `before → after`) or two spaces
+ * (unchanged).
+ *
+ * ```text
+ *   └─ root (object)
+ * ~    ├─ count (number): 1 → 2
+ * -    ├─ old (string): "x"
+ * +    └─ new (boolean): true
+ * ```
+ *
+ * @param diff - The diff to format.
+ * @param options - Options controlling the output. See `FormatOptions`.
+ * @returns A string representation of the diff.
+ */
+export function formatPropertyTreeDiff(
+	diff: PropertyTreeDiff,
+	options?: FormatOptions,
+): string {
+	const lines: string[] = [];
+	formatDiffNodeLines(
+		diff.root,
+		resolveFormatOptions(options),
+		"",
+		true,
+		lines,
+	);
+	return lines.join("\n");
+}
@@ -0,0 +1,19 @@
+// --- Custom Error Types ---
+
+/**
+ * Custom error class thrown when an invalid `maxDepth` parameter (non-integer or negative)
+ * is passed to `buildPropertyTree`.
+ */
+export class InvalidDepthError extends Error {
+	/** The invalid depth value that caused the error. */
+	public readonly depth: number;
+
+	constructor(depth: number) {
+		super(`Invalid maxDepth: ${depth}. Must be a non-negative integer.`);
+		this.name = "InvalidDepthError";
+		this.depth = depth;
+
+		// Maintains proper prototype chain for 'instanceof' checks.
+		Object.setPrototypeOf(this, InvalidDepthError.prototype);
+	}
+}
@@ -0,0 +1,520 @@
+import { type ColorStyle, type ColorTheme, COLOR_THEMES } from "./colors.ts";
+import {
+	ACCESS_ERROR_MARKER,
+	CIRCULAR_REFERENCE_MARKER,
+	MARKERS,
+	REDACTED_MARKER,
+	REJECTED_MARKER,
+	SHARED_REFERENCE_MARKER,
+	TRUNCATED_MARKER,
+} from "./markers.ts";
+import type { ResolvedFormatOptions } from "./options.ts";
+import { orderChildren } from "./ordering.ts";
+import { DISPLAY_VALUE_TYPES, PRIMITIVE_TYPES } from "./property-types.ts";
+import { formatByteSize, getSubtreeSizes } from "./stats.ts";
+import type { FunctionInfo, PropertyTreeNode, PropertyType } from "./types.ts";
+
+// --- Colors ---
+
+/** The value types that have their own style in a `ColorTheme`. */
+const STYLED_VALUE_TYPES: ReadonlySet<string> = new Set([
+	"string",
+	"number",
+	"bigint",
+	"boolean",
+	"symbol",
+	"undefined",
+	"null",
+	"date",
+	"regexp",
+]);
+
+/**
+ * Returns the color theme to style the output with.
+ * @param options - The resolved format options.
+ * @returns The theme, or `undefined` if colors are disabled.
+ */
+export function getColorTheme(
+	options: ResolvedFormatOptions,
+): ColorTheme | undefined {
+	if (!options.colors) {
+		return undefined;
+	}
+	return typeof options.theme === "string" ? COLOR_THEMES[options.theme] : options.theme;
+}
+
+/**
+ * Applies a style to text, if there is one.
+ * @param text - The text to style.
+ * @param style - The style, or `undefined` to leave the text as-is.
+ * @returns The styled text.
+ */
+export function paint(text: string, style: ColorStyle | undefined): string {
+	return style ? style(text) : text;
+}
+
+/**
+ * Picks the theme style for a node's displayed value: markers have their own
+ * styles, and other values are styled by type.
+ * @param node - The node.
+ * @param theme - The color theme.
+ * @returns The style, or `undefined` if the value should not be styled.
+ */
+export function getValueStyle(
+	node: PropertyTreeNode,
+	theme: ColorTheme,
+): ColorStyle | undefined {
+	if (MARKERS.has(node.value) && node.type !== "string") {
+		switch (node.value) {
+			case CIRCULAR_REFERENCE_MARKER:
+			case SHARED_REFERENCE_MARKER:
+				return theme.reference;
+			case ACCESS_ERROR_MARKER:
+			case REJECTED_MARKER:
+				return theme.error;
+			case TRUNCATED_MARKER:
+			case REDACTED_MARKER:
+				return theme.annotations;
+			default:
+				return theme.accessor;
+		}
+	}
+	return STYLED_VALUE_TYPES.has(node.type)
+		? theme[node.type as keyof ColorTheme]
+		: undefined;
+}
+
+// --- Node Label Parts ---
+
+/**
+ * Formats a node's name. Symbol keys are wrapped in brackets, mirroring
+ * computed property syntax.
+ * @param node - The node.
+ * @returns The display name.
+ */
+export function formatNodeName(node: PropertyTreeNode): string {
+	return node.isSymbolKey ? `[${node.name}]` : node.name;
+}
+
+/**
+ * Formats a function's kind, name and arity, e.g. `async handle/2`. Regular
+ * functions show no kind.
+ * @param info - The function's description.
+ * @returns The formatted signature.
+ */
+function formatFunctionSignature(info: FunctionInfo): string {
+	const kind = info.kind === "regular" ? "" : `${info.kind} `;
+	return `${kind}${info.name || "anonymous"}/${info.arity}`;
+}
+
+/**
+ * Formats the text shown in parentheses after a node's name: its type, followed
+ * by its class name (or `[null prototype]`) or function signature when enabled.
+ * @param node - The node.
+ * @param options - The resolved format options.
+ * @returns The type label, e.g. `object User`.
+ */
+export function formatTypeLabel(
+	node: PropertyTreeNode,
+	options: ResolvedFormatOptions,
+): string {
+	let typeLabel: string = node.type;
+	if (options.showClassNames) {
+		if (node.hasNullPrototype) {
+			typeLabel += " [null prototype]";
+		} else if (node.className) {
+			typeLabel += ` ${node.className}`;
+		}
+	}
+	if (options.showFunctionInfo && node.functionInfo) {
+		typeLabel += ` ${formatFunctionSignature(node.functionInfo)}`;
+	}
+	return typeLabel;
+}
+
+/**
+ * The types whose size is worth showing even when they aren't expanded, if it
+ * was measured with `collectStats`.
+ */
+const MEASURED_TYPES: ReadonlySet<PropertyType> = new Set<PropertyType>([
+	"array",
+	"map",
+	"set",
+	"typedarray",
+	"arraybuffer",
+	"dataview",
+]);
+
+/**
+ * Determines whether `showSizes` annotates a node with its size: every expanded
+ * node, and collections and binary data with a measured `size`. References are
+ * never annotated, as their target is counted where it is expanded.
+ * @param node - The node.
+ * @returns `true` if the node's size is shown.
+ */
+function showsSize(node: PropertyTreeNode): boolean {
+	if (node.reference) {
+		return false;
+	}
+	return node.children !== undefined ||
+		(node.size !== undefined && MEASURED_TYPES.has(node.type));
+}
+
+/**
+ * Formats the annotations and reference id shown after a node's type label,
+ * e.g. ` [non-enumerable, inherited] <ref *1>`.
+ * @param node - The node.
+ * @param size - The approximate size of the node's subtree to show, if any
+ * (see `FormatOptions.showSizes`).
+ * @returns The annotations, with a leading space, or an empty string if there are none.
+ */
+export function formatNodeAnnotations(node: PropertyTreeNode, size?: number): string {
+	let text = "";
+
+	// Annotate properties that would not appear in a plain `Object.keys` walk.
+	const annotations: string[] = [];
+	if (node.isNonEnumerable) annotations.push("non-enumerable");
+	if (node.isInherited) annotations.push("inherited");
+	// Annotate data properties that can't be assigned to. Frozen properties
+	// additionally can't be reconfigured or deleted, as after `Object.freeze`.
+	if (node.descriptor?.kind === "data" && !node.descriptor.writable) {
+		annotations.push(node.descriptor.configurable ? "read-only" : "frozen");
+	}
+	if (node.awaited) annotations.push("awaited");
+	if (size !== undefined) annotations.push(`~${formatByteSize(size)}`);
+	// Flag trees cut short by a traversal budget on their root.
+	if (node.truncation) {
+		annotations.push(`truncated: ${node.truncation.reason}`);
+	}
+	if (annotations.length > 0) {
+		text += ` [${annotations.join(", ")}]`;
+	}
+
+	// Mark objects that other nodes refer back to, like Node's `util.inspect`.
+	if (node.refId !== undefined) {
+		text += ` <ref *${node.refId}>`;
+	}
+
+	return text;
+}
+
+/**
+ * Escape sequences for characters with a short form, used by `"control"` and
+ * `"unicode"` escaping.
+ */
+const SHORT_ESCAPES: Readonly<Record<string, string>> = {
+	"\\": "\\\\",
+	'"': '\\"',
+	"\b": "\\b",
+	"\f": "\\f",
+	"\n": "\\n",
+	"\r": "\\r",
+	"\t": "\\t",
+	"\v": "\\v",
+};
+
+/**
+ * Characters escaped by each `FormatOptions.escape` mode other than `"newlines"`.
+ * With the `u` flag, the surrogate range only matches lone surrogates.
+ */
+const ESCAPE_PATTERNS = {
+	// deno-lint-ignore no-control-regex
+	control: /[\\"\x00-\x1f\x7f-\x9f\u2028\u2029\ud800-\udfff]/gu,
+	unicode: /[\\"]|[^\x20-\x7e]/gu,
+};
+
+/**
+ * Escapes the characters of a string value selected by the `escape` option.
+ * @param text - The string to escape.
+ * @param mode - The escape mode.
+ * @returns The escaped string.
+ */
+function escapeString(
+	text: string,
+	mode: ResolvedFormatOptions["escape"],
+): string {
+	if (mode === "newlines") {
+		return text.replace(/\n/g, "\\n");
+	}
+	return text.replace(ESCAPE_PATTERNS[mode], (char) => {
+		if (SHORT_ESCAPES[char]) {
+			return SHORT_ESCAPES[char];
+		}
+		// deno-lint-ignore no-non-null-assertion
+		const codePoint = char.codePointAt(0)!;
+		const hex = codePoint.toString(16).padStart(2, "0");
+		if (codePoint <= 0xff) return `\\x${hex}`;
+		if (codePoint <= 0xffff) return `\\u${hex.padStart(4, "0")}`;
+		return `\\u{${hex}}`;
+	});
+}
+
+/**
+ * Formats a node's value for display: strings are quoted, escaped and truncated,
+ * markers and other values are shown as-is.
+ * @param node - The node.
+ * @param options - The resolved format options.
+ * @returns The display value, or `undefined` if the node has no value to show.
+ */
+export function formatNodeValue(
+	node: PropertyTreeNode,
+	options: ResolvedFormatOptions,
+): string | undefined {
+	// Add value information ONLY if the 'value' property actually exists on the node.
+	// This correctly handles primitives, markers, and avoids showing anything for
+	// unexpanded objects/arrays/functions (unless they are circular refs).
+	if (!Object.hasOwn(node, "value")) {
+		// Custom summaries from inspect hooks and type handlers stand in for a
+		// value, as do function source previews.
+		return node.summary ??
+			(options.showFunctionInfo ? node.functionInfo?.source : undefined);
+	}
+
+	// Check type again here for clarity, although hasOwn should correspond
+	// to primitives or markers based on processChild logic.
+	if (node.reference?.id !== undefined) {
+		// Deduplicated references show where they point, e.g. `[Ref *1 → root.user]`.
+		const label = node.reference.kind === "circular" ? "Circular" : "Ref";
+		const arrow = options.connectors === "ascii" ? "->" : "→";
+		return `[${label} *${node.reference.id} ${arrow} ${node.reference.path}]`;
+	}
+	if (
+		// Explicitly handle markers which might be on object/array type nodes
+		MARKERS.has(node.value) && node.type !== "string"
+	) {
+		// Include the error behind the marker, if known, e.g. `[Rejected: Error: boom]`.
+		return node.error === undefined
+			? String(node.value)
+			: `${String(node.value).slice(0, -1)}: ${escapeString(node.error, options.escape)}]`;
+	}
+	if (PRIMITIVE_TYPES.has(node.type) || DISPLAY_VALUE_TYPES.has(node.type)) {
+		// Handle primitive display. Date/RegExp values are shown unquoted.
+		if (node.type === "string" && typeof node.value === "string") {
+			// Truncate before escaping, so escape sequences are never cut in half.
+			const { maxStringLength } = options;
+			const isTruncated = maxStringLength !== null &&
+				node.value.length > maxStringLength;
+			const displayValue = isTruncated
+				? node.value.slice(0, maxStringLength)
+				: node.value;
+			return `"${escapeString(displayValue, options.escape)}${isTruncated ? "..." : ""}"`;
+		}
+		// Includes numbers, booleans, null, undefined, bigint, symbol, date, regexp
+		return String(node.value);
+	}
+	// Otherwise, if hasOwn is true but it's another object type or a function without a marker,
+	// we don't display the value (shouldn't happen with current logic).
+	return undefined;
+}
+
+/**
+ * Formats the part of a node's label before its value: the name, type label
+ * and annotations, e.g. `user (object User) <ref *1>`.
+ * @param node - The node.
+ * @param options - The resolved format options.
+ * @param theme - The color theme, or `undefined` for plain text.
+ * @param size - The approximate size of the node's subtree to show, if any.
+ * @returns The start of the label.
+ */
+function formatLabelHead(
+	node: PropertyTreeNode,
+	options: ResolvedFormatOptions,
+	theme: ColorTheme | undefined,
+	size?: number,
+): string {
+	// Elision nodes are summaries rather than properties, e.g. `… 10 more items`.
+	if (node.type === "elision") {
+		const name = options.connectors === "ascii"
+			? node.name.replace(/^…/, "...")
+			: node.name;
+		return paint(name, theme?.annotations);
+	}
+	const annotations = formatNodeAnnotations(node, size);
+	return paint(formatNodeName(node), theme?.name) +
+		(options.showTypes
+			? " " + paint(`(${formatTypeLabel(node, options)})`, theme?.type)
+			: "") +
+		// Annotations start with a space, which is left unstyled.
+		(annotations ? " " + paint(annotations.slice(1), theme?.annotations) : "");
+}
+
+/**
+ * Formats the full single-line label for a node, without tree connectors,
+ * e.g. `name (string): "Alice"`. Each part is styled when colors are enabled.
+ * `maxLineWidth` is not applied.
+ * @param node - The node.
+ * @param options - The resolved format options.
+ * @param size - The approximate size of the node's subtree to show, if any.
+ * @returns The node's label.
+ */
+export function formatNodeLabel(
+	node: PropertyTreeNode,
+	options: ResolvedFormatOptions,
+	size?: number,
+): string {
+	const theme = getColorTheme(options);
+	const value = formatNodeValue(node, options);
+	return formatLabelHead(node, options, theme, size) +
+		(value === undefined ? "" : `: ${paint(value, theme && getValueStyle(node, theme))}`);
+}
+
+/**
+ * Formats a node's label to fit within `maxLineWidth`, eliding or wrapping its
+ * value as configured. Widths are measured in code points, ignoring colors.
+ * @param node - The node.
+ * @param options - The resolved format options.
+ * @param prefixWidth - The width of the connector and indentation before the label.
+ * @param continuationWidth - The width of the indentation before wrapped lines.
+ * @param size - The approximate size of the node's subtree to show, if any.
+ * @returns The label's lines: one, unless the value was wrapped.
+ */
+function formatLabelLines(
+	node: PropertyTreeNode,
+	options: ResolvedFormatOptions,
+	prefixWidth: number,
+	continuationWidth: number,
+	size?: number,
+): string[] {
+	const { maxLineWidth } = options;
+	const value = formatNodeValue(node, options);
+	if (value === undefined || maxLineWidth === null) {
+		return [formatNodeLabel(node, options, size)];
+	}
+
+	const theme = getColorTheme(options);
+	const head = formatLabelHead(node, options, theme, size);
+	const style = theme && getValueStyle(node, theme);
+	const available = maxLineWidth - prefixWidth -
+		[...formatLabelHead(node, options, undefined, size)].length - ": ".length;
+	const chars = [...value];
+	if (chars.length <= available) {
+		return [`${head}: ${paint(value, style)}`];
+	}
+
+	if (options.lineOverflow === "elide") {
+		const elided = chars.slice(0, Math.max(0, available - 3)).join("") + "...";
+		return [`${head}: ${paint(elided, style)}`];
+	}
+
+	// Fill the rest of the first line, then continue on lines of their own.
+	const firstLength = Math.max(0, available);
+	const lines = [
+		firstLength > 0
+			? `${head}: ${paint(chars.slice(0, firstLength).join(""), style)}`
+			: `${head}:`,
+	];
+	const chunkLength = Math.max(1, maxLineWidth - continuationWidth);
+	for (let i = firstLength; i < chars.length; i += chunkLength) {
+		lines.push(paint(chars.slice(i, i + chunkLength).join(""), style));
+	}
+	return lines;
+}
+
+// --- Tree Layout ---
+
+/** The characters used to draw each `FormatOptions.connectors` set. */
+const CONNECTOR_SETS = {
+	unicode: { branch: "├", last: "└", vertical: "│", horizontal: "─" },
+	ascii: { branch: "+", last: "`", vertical: "|", horizontal: "-" },
+};
+
+/**
+ * Returns the connector drawn before a node's label.
+ * @param isLast - Whether the node is the last of its siblings.
+ * @param options - The resolved format options.
+ * @returns The connector, e.g. `├─ `.
+ */
+export function getConnector(
+	isLast: boolean,
+	options: ResolvedFormatOptions,
+): string {
+	const set = CONNECTOR_SETS[options.connectors];
+	return (isLast ? set.last : set.branch) +
+		set.horizontal.repeat(options.indentWidth - 2) + " ";
+}
+
+/**
+ * Returns the indentation added for a node's children.
+ * @param isLast - Whether the parent node is the last of its siblings.
+ * @param options - The resolved format options.
+ * @returns The indentation, e.g. `│  `.
+ */
+export function getChildIndent(
+	isLast: boolean,
+	options: ResolvedFormatOptions,
+): string {
+	const set = CONNECTOR_SETS[options.connectors];
+	return (isLast ? " " : set.vertical) + " ".repeat(options.indentWidth - 1);
+}
+
+/**
+ * Formats a `PropertyTreeNode` and its children line by line, with indentation
+ * and tree connectors. Nodes are visited depth-first with an explicit stack
+ * rather than recursion, so arbitrarily deep trees can be formatted, and each
+ * line is yielded as soon as it is ready.
+ *
+ * @param node - The `PropertyTreeNode` to format.
+ * @param options - The resolved format options.
+ * @param indent - The indentation string to use for the node's level.
+ * @param isLast - Boolean indicating if the node is the last sibling at its level.
+ * @returns A generator of the output lines, without line breaks.
+ */
+export function* formatNodeLines(
+	node: PropertyTreeNode,
+	options: ResolvedFormatOptions,
+	indent = "",
+	isLast = true,
+): Generator<string, void, undefined> {
+	const connectorStyle = getColorTheme(options)?.connector;
+	const sizes = options.showSizes ? getSubtreeSizes(node) : undefined;
+	// Nodes waiting to be formatted; siblings are pushed last-first so they pop in order.
+	const stack = [{ node, indent, isLast }];
+
+	while (stack.length > 0) {
+		const current = stack.pop() as (typeof stack)[number];
+		const children = orderChildren(current.node, options.order);
+		const hasChildren = children.length > 0;
+		const prefix = current.indent + getConnector(current.isLast, options);
+		const childIndent = current.indent + getChildIndent(current.isLast, options);
+		// Wrapped values continue level with the node's children.
+		const continuation = childIndent + getChildIndent(!hasChildren, options);
+
+		const labels = formatLabelLines(
+			current.node,
+			options,
+			[...prefix].length,
+			[...continuation].length,
+			showsSize(current.node) ? sizes?.get(current.node) : undefined,
+		);
+		for (const [index, label] of labels.entries()) {
+			yield paint(index === 0 ? prefix : continuation, connectorStyle) + label;
+		}
+
+		for (let i = children.length - 1; i >= 0; i--) {
+			stack.push({
+				node: children[i],
+				indent: childIndent,
+				isLast: i === children.length - 1,
+			});
+		}
+	}
+}
+
+/**
+ * Formats a `PropertyTreeNode` and its children into a human-readable string
+ * representation with indentation and tree connectors (see `formatNodeLines`).
+ *
+ * @param node - The `PropertyTreeNode` to format.
+ * @param options - The resolved format options.
+ * @param indent - The indentation string to use for the current level.
+ * @param isLast - Boolean indicating if this node is the last sibling at its level.
+ * @returns A string representation of the node and its subtree.
+ */
+export function formatNodeToString(
+	node: PropertyTreeNode,
+	options: ResolvedFormatOptions,
+	indent = "",
+	isLast = true,
+): string {
+	return [...formatNodeLines(node, options, indent, isLast)].join("\n");
+}
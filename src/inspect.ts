@@ -0,0 +1,198 @@
+import type { ErrorHandler } from "./options.ts";
+import type { PathSegment } from "./types.ts";
+
+// --- Types ---
+
+/**
+ * Describes how an object appears in a property tree, as returned by an
+ * `INSPECT_SYMBOL` method or a `TypeHandler`. Every field is optional; fields
+ * that are left out keep their default behaviour.
+ */
+export interface InspectResult {
+	/**
+	 * A value to show in place of the object, e.g. a string or number for a
+	 * decimal type. The node's type, value and children are built from it
+	 * instead (without inspecting it again). Only used if the property is present,
+	 * so `{ value: undefined }` shows `undefined`.
+	 */
+	value?: unknown;
+
+	/**
+	 * A one-line description shown in place of a value, e.g.
+	 * `2024-01-01T00:00:00Z` for a timestamp type. Unless `children` is given, the
+	 * object is not expanded.
+	 */
+	summary?: string;
+
+	/**
+	 * The children to show in place of the object's own properties, keyed by
+	 * name. They are built like the properties of a plain object, so nested
+	 * values are expanded (and inspected) in turn, within `maxDepth`.
+	 */
+	children?: Record<string, unknown>;
+
+	/** The class name shown after the type, e.g. `Decimal`. */
+	className?: string;
+}
+
+/** Describes where a value being inspected appears in the tree. */
+export interface InspectContext {
+	/** The path from the root to the value. */
+	path: readonly PathSegment[];
+}
+
+/**
+ * Describes a value for `buildPropertyTree`, or returns `undefined` to fall
+ * back to the default behaviour.
+ * @param value - The value, which matched the handler's predicate.
+ * @param context - Where the value appears in the tree.
+ * @returns How the value should appear.
+ */
+export type TypeHandler = (
+	value: object,
+	context: InspectContext,
+) => InspectResult | undefined;
+
+/**
+ * Internal interface for an entry in the type handler registry.
+ */
+interface RegisteredTypeHandler {
+	/** Determines whether the handler applies to a value. */
+	predicate: (value: object) => boolean;
+
+	/** The handler. */
+	handler: TypeHandler;
+}
+
+// --- Inspection ---
+
+/**
+ * The well-known symbol objects can implement to control how they appear in a
+ * property tree. The method is called with an `InspectContext`, and returns an
+ * `InspectResult` (or `undefined` for the default behaviour):
+ *
+ * ```ts
+ * class Money {
+ *   constructor(private cents: bigint, private currency: string) {}
+ *   [Symbol.for("object-property-tree.inspect")]() {
+ *     return { summary: `${this.cents / 100n} ${this.currency}` };
+ *   }
+ * }
+ * ```
+ *
+ * Being registered with `Symbol.for`, it can be implemented without importing
+ * this package.
+ */
+export const INSPECT_SYMBOL: unique symbol = Symbol.for("object-property-tree.inspect");
+
+/** The registered type handlers, in registration order. */
+const typeHandlers: RegisteredTypeHandler[] = [];
+
+/**
+ * Registers a handler that controls how values of a type appear in property
+ * trees, such as third-party types that can't implement `INSPECT_SYMBOL`. The
+ * handler is used for every object and function matching the predicate; an
+ * object's own `INSPECT_SYMBOL` method takes priority, and later registrations
+ * take priority over earlier ones.
+ *
+ * ```ts
+ * registerTypeHandler(
+ *   (value) => value instanceof Decimal,
+ *   (value) => ({ summary: value.toString() }),
+ * );
+ * ```
+ *
+ * @param predicate - Determines whether the handler applies to a value.
+ * @param handler - Describes a matching value. See `TypeHandler`.
+ * @returns A function that unregisters the handler.
+ */
+export function registerTypeHandler<T extends object>(
+	predicate: (value: object) => value is T,
+	handler: (value: T, context: InspectContext) => InspectResult | undefined,
+): () => void;
+export function registerTypeHandler(
+	predicate: (value: object) => boolean,
+	handler: TypeHandler,
+): () => void;
+export function registerTypeHandler(
+	predicate: (value: object) => boolean,
+	handler: TypeHandler,
+): () => void {
+	const entry: RegisteredTypeHandler = { predicate, handler };
+	typeHandlers.push(entry);
+	return () => {
+		const index = typeHandlers.indexOf(entry);
+		if (index !== -1) {
+			typeHandlers.splice(index, 1);
+		}
+	};
+}
+
+/**
+ * Looks up a value's `INSPECT_SYMBOL` hook along its prototype chain through
+ * property descriptors, so getters are only called when allowed.
+ * @param value - The value.
+ * @param invokeGetter - Whether a hook defined by a getter may be read.
+ * @returns The hook, or `undefined` if there's none (or it can't be read).
+ */
+function findInspectHook(value: object, invokeGetter: boolean): unknown {
+	for (
+		let owner: object | null = value;
+		owner !== null;
+		owner = Object.getPrototypeOf(owner)
+	) {
+		const descriptor = Object.getOwnPropertyDescriptor(owner, INSPECT_SYMBOL);
+		if (descriptor) {
+			if (Object.hasOwn(descriptor, "value")) {
+				return descriptor.value;
+			}
+			return invokeGetter ? descriptor.get?.call(value) : undefined;
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Asks a value how it should appear in the tree: first its own `INSPECT_SYMBOL`
+ * method, then the registered type handlers, most recent first. Errors thrown
+ * by a hook or handler are passed to `onError`, and the value is shown as usual.
+ * @param value - The value.
+ * @param path - The path from the root to the value.
+ * @param onError - Receives the errors thrown by hooks and handlers, if given.
+ * @param invokeGetter - Whether a hook defined by a getter may be read, as
+ * decided by the `accessors` policy.
+ * @returns The custom description, or `undefined` for the default behaviour.
+ */
+export function getCustomInspection(
+	value: unknown,
+	path: readonly PathSegment[],
+	onError: ErrorHandler | null,
+	invokeGetter: boolean,
+): InspectResult | undefined {
+	if ((typeof value !== "object" && typeof value !== "function") || value === null) {
+		return undefined;
+	}
+	const context: InspectContext = { path };
+	try {
+		const inspect = findInspectHook(value, invokeGetter);
+		if (typeof inspect === "function") {
+			const result = inspect.call(value, context) as InspectResult | undefined;
+			if (result !== undefined) return result;
+		}
+	} catch (error) {
+		// A failing hook still leaves the type handlers to describe the value.
+		onError?.(error, path);
+	}
+	try {
+		for (let i = typeHandlers.length - 1; i >= 0; i--) {
+			const { predicate, handler } = typeHandlers[i];
+			if (predicate(value)) {
+				const result = handler(value, context);
+				if (result !== undefined) return result;
+			}
+		}
+	} catch (error) {
+		onError?.(error, path);
+	}
+	return undefined;
+}
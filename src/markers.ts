@@ -0,0 +1,35 @@
+// --- Markers ---
+
+/** Marker string indicating a circular reference was detected. */
+export const CIRCULAR_REFERENCE_MARKER = "[Circular Reference]";
+/** Marker string indicating an object already expanded elsewhere in the tree (see `BuildOptions.references`). */
+export const SHARED_REFERENCE_MARKER = "[Shared Reference]";
+/** Marker string indicating an error occurred while accessing a property. */
+export const ACCESS_ERROR_MARKER = "[Access Error]";
+/** Marker string indicating an object's children were cut short by a traversal budget (see `BuildOptions.maxNodes`). */
+export const TRUNCATED_MARKER = "[Truncated]";
+/** Marker string shown in place of a value hidden by `BuildOptions.redact`. */
+export const REDACTED_MARKER = "[Redacted]";
+/** Marker strings for Promises that `buildPropertyTreeAsync` could not resolve (see `BuildOptions.promiseTimeoutMs`). */
+export const PENDING_MARKER = "[Pending]";
+export const REJECTED_MARKER = "[Rejected]";
+export const TIMED_OUT_MARKER = "[Timed Out]";
+/** Marker strings for accessor properties that were not invoked (see `BuildOptions.accessors`). */
+export const GETTER_MARKER = "[Getter]";
+export const SETTER_MARKER = "[Setter]";
+export const GETTER_SETTER_MARKER = "[Getter/Setter]";
+
+/** Every marker string, displayed verbatim by the formatter. */
+export const MARKERS: ReadonlySet<unknown> = new Set([
+	CIRCULAR_REFERENCE_MARKER,
+	SHARED_REFERENCE_MARKER,
+	ACCESS_ERROR_MARKER,
+	TRUNCATED_MARKER,
+	REDACTED_MARKER,
+	PENDING_MARKER,
+	REJECTED_MARKER,
+	TIMED_OUT_MARKER,
+	GETTER_MARKER,
+	SETTER_MARKER,
+	GETTER_SETTER_MARKER,
+]);
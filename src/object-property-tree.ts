@@ -1,75 +1,159 @@
-// --- Constants ---
+import { shouldUseColor } from "./colors.ts";
+import { formatNodeToString } from "./format.ts";
+import {
+	ACCESS_ERROR_MARKER,
+	CIRCULAR_REFERENCE_MARKER,
+	GETTER_MARKER,
+	GETTER_SETTER_MARKER,
+	PENDING_MARKER,
+	REDACTED_MARKER,
+	REJECTED_MARKER,
+	SETTER_MARKER,
+	SHARED_REFERENCE_MARKER,
+	TIMED_OUT_MARKER,
+	TRUNCATED_MARKER,
+} from "./markers.ts";
+import {
+	type AccessorPolicy,
+	applyDefaults,
+	type BuildOptions,
+	type ChildLimit,
+	DEFAULT_BUILD_OPTIONS,
+	type ErrorHandler,
+	type FormatOptions,
+	type LogOptions,
+	type PathFilter,
+	type PathPredicate,
+	type ResolvedBuildOptions,
+	resolveFormatOptions,
+} from "./options.ts";
+import {
+	formatJsonPointer,
+	formatJsPath,
+	getSegmentName,
+	matchPathGlob,
+	parsePathGlob,
+	type PathGlobSegment,
+} from "./paths.ts";
+import {
+	describeFunction,
+	DISPLAY_VALUE_TYPES,
+	EXPANDABLE_TYPES,
+	getPropertyType,
+	PRIMITIVE_TYPES,
+} from "./property-types.ts";
+import { compareKeys, normalizeTree } from "./deterministic.ts";
+import { InvalidDepthError } from "./errors.ts";
+import { getCustomInspection, INSPECT_SYMBOL, type InspectResult } from "./inspect.ts";
+import { orderTree } from "./ordering.ts";
+import { createRedactionMatcher } from "./redaction.ts";
+import { getSubtreeSizes, measureValueSize, summarizePropertyTree } from "./stats.ts";
+import type {
+	PathSegment,
+	PropertyDescriptorInfo,
+	PropertyTreeNode,
+	PropertyType,
+	TruncationInfo,
+} from "./types.ts";
 
-/** Marker string indicating a circular reference was detected. */
-const CIRCULAR_REFERENCE_MARKER = "[Circular Reference]";
-/** Marker string indicating an error occurred while accessing a property. */
-const ACCESS_ERROR_MARKER = "[Access Error]";
+// --- Re-exported Types ---
 
-// --- Custom Error Types ---
+export type {
+	AccessorPolicy,
+	BuildOptions,
+	ChildLimit,
+	ErrorHandler,
+	FormatOptions,
+	KeyComparator,
+	KeyOrder,
+	LogOptions,
+	PathFilter,
+	PathPredicate,
+} from "./options.ts";
+export type {
+	FunctionInfo,
+	FunctionKind,
+	MapKeySegment,
+	PathSegment,
+	PropertyDescriptorInfo,
+	PropertyTreeNode,
+	PropertyTreeStats,
+	PropertyType,
+	ReferenceInfo,
+	SubtreeSize,
+	TruncationInfo,
+} from "./types.ts";
+export type { ExpandableType } from "./property-types.ts";
+export { hasChildren, isExpandableNode, isReferenceNode } from "./property-types.ts";
+export type { ColorStyle, ColorTheme } from "./colors.ts";
+export type { InspectContext, InspectResult, TypeHandler } from "./inspect.ts";
+export { INSPECT_SYMBOL, registerTypeHandler } from "./inspect.ts";
+export { InvalidDepthError } from "./errors.ts";
+export { DEFAULT_REDACT_PATTERNS } from "./redaction.ts";
+export { summarizePropertyTree } from "./stats.ts";
+export { normalizePropertyTree } from "./deterministic.ts";
+export {
+	COLOR_THEMES,
+	DEFAULT_COLOR_THEME,
+	LIGHT_COLOR_THEME,
+} from "./colors.ts";
+
+// --- Internal Types & Constants ---
 
 /**
- * Custom error class thrown when an invalid `maxDepth` parameter (non-integer or negative)
- * is passed to `buildPropertyTree`.
+ * The constructor names implied by each object type. Class names matching these
+ * are not recorded on nodes, so plain objects and arrays stay unannotated.
  */
-export class InvalidDepthError extends Error {
-	/** The invalid depth value that caused the error. */
-	public readonly depth: number;
-
-	constructor(depth: number) {
-		super(`Invalid maxDepth: ${depth}. Must be a non-negative integer.`);
-		this.name = "InvalidDepthError";
-		this.depth = depth;
-
-		// Maintains proper prototype chain for 'instanceof' checks.
-		Object.setPrototypeOf(this, InvalidDepthError.prototype);
-	}
-}
-
-// --- Core Types & Interfaces ---
+const DEFAULT_CLASS_NAMES: Partial<Record<PropertyType, string>> = {
+	object: "Object",
+	array: "Array",
+	map: "Map",
+	set: "Set",
+	weakmap: "WeakMap",
+	weakset: "WeakSet",
+	weakref: "WeakRef",
+	date: "Date",
+	regexp: "RegExp",
+	promise: "Promise",
+	arraybuffer: "ArrayBuffer",
+	dataview: "DataView",
+};
 
 /**
- * Represents the different types of values encountered during object traversal.
+ * The words used in elision node names for the children of each expandable type,
+ * in singular and plural form.
  */
-type PropertyType =
-	| "object"
-	| "array"
-	| "string"
-	| "number"
-	| "boolean"
-	| "function"
-	| "symbol"
-	| "bigint"
-	| "undefined"
-	| "null"
-	| "error"; // Special type for access errors
+const ELIDED_CHILD_UNITS: Partial<Record<PropertyType, [string, string]>> = {
+	object: ["property", "properties"],
+	array: ["item", "items"],
+	typedarray: ["item", "items"],
+	map: ["entry", "entries"],
+	set: ["item", "items"],
+	function: ["property", "properties"],
+};
 
 /**
- * Represents a node within the property tree. Each node corresponds to a property
- * or an array element in the original object structure.
+ * Flags describing how a child property's key was found on its parent.
+ * Copied onto the child's `PropertyTreeNode`.
  */
-interface PropertyTreeNode {
-	/**
-	 * The name of the property or array index (as a string, e.g., "[0]").
-	 * For the root node, this is typically "root".
-	 */
-	name: string;
+type PropertyKeyFlags = Pick<
+	PropertyTreeNode,
+	"isSymbolKey" | "isNonEnumerable" | "isInherited"
+>;
 
-	/** The type of the property's value, determined by `getPropertyType`. */
-	type: PropertyType;
+/**
+ * Internal interface describing a property key collected from an object
+ * (or its prototype chain) by `collectPropertyKeys`.
+ */
+interface CollectedKey {
+	/** The property key. */
+	key: string | symbol;
 
-	/**
-	 * The actual value of the property if it's a primitive, null, undefined,
-	 * or a special marker (like circular reference/access error).
-	 * Should only be present on nodes where the type is not 'object', 'array',
-	 * or 'function', unless it's a special marker.
-	 */
-	value?: unknown;
+	/** The object on which the property is defined (the object itself, or a prototype). */
+	owner: object;
 
-	/**
-	 * Child nodes representing properties of an object or elements of an array.
-	 * Only present for 'object' or 'array' types that are expanded.
-	 */
-	children?: PropertyTreeNode[];
+	/** Flags to record on the resulting node. */
+	flags: PropertyKeyFlags;
 }
 
 /**
@@ -77,12 +161,15 @@ interface PropertyTreeNode {
  * iterative tree building process.
  */
 interface WorkItem {
-	/** The object or array to process. */
-	obj: object | unknown[]; // Known to be object or array when queued
+	/** The object, array, Map, Set or typed array to process. */
+	obj: object | unknown[]; // Known to be an expandable type when queued
 
 	/** The property name associated with this object/array (used for context, not node creation). */
 	name: string;
 
+	/** The path from the root to this object. */
+	path: PathSegment[];
+
 	/** The current depth level in the object graph. */
 	depth: number;
 
@@ -90,125 +177,719 @@ interface WorkItem {
 	parent: PropertyTreeNode;
 
 	/**
-	 * A set containing references to objects already visited along the current path
-	 * from the root to this `WorkItem`. Used for circular reference detection.
-	 * A new copy is created for each branch.
+	 * Whether `obj` holds the children returned by an inspect hook or type handler
+	 * (see `InspectResult.children`), which are processed as object properties
+	 * whatever the parent's type.
 	 */
-	visited: Set<object>;
+	isCustom?: boolean;
+
+	/**
+	 * Whether this object, or one of its ancestors, matches `BuildOptions.include`
+	 * (always `true` without an `include` filter). Children of objects that don't
+	 * match are only kept if they, or their descendants, do.
+	 */
+	included: boolean;
+
+	/**
+	 * A map containing references to objects already visited along the current path
+	 * from the root to this `WorkItem`, with the path to each. Used for circular
+	 * reference detection. A new copy is created for each branch.
+	 */
+	visited: Map<object, PathSegment[]>;
 }
 
+/**
+ * Internal interface holding the state shared by every step of a single
+ * `buildPropertyTree` traversal.
+ */
+interface TraversalContext {
+	/** The resolved build options. */
+	options: ResolvedBuildOptions;
+
+	/** The work queue for the iterative traversal. */
+	queue: WorkItem[];
+
+	/**
+	 * Every object expanded so far, with its node. Only populated when
+	 * `references` is `"dedupe"`.
+	 */
+	expanded: Map<object, PropertyTreeNode>;
+
+	/** The next reference id to assign. */
+	nextRefId: number;
+
+	/** The number of nodes created so far, including the root. */
+	nodeCount: number;
+
+	/** The `performance.now()` timestamp at which traversal started. */
+	startTime: number;
+
+	/** The budget that ran out, once traversal has to stop. */
+	exhausted?: TruncationInfo["reason"];
+
+	/** The number of nodes marked `[Truncated]`. */
+	truncatedCount: number;
+
+	/** Receives caught errors: `onError`, after logging them unless `silent` is set. */
+	onError: ErrorHandler | null;
+
+	/** Determines whether a path matches `BuildOptions.redact`, if any patterns are given. */
+	isRedacted?: (path: readonly PathSegment[]) => boolean;
+
+	/** The `include` and `exclude` filters, with globs parsed. */
+	filters: {
+		include: CompiledPathFilter | null;
+		exclude: CompiledPathFilter | null;
+	};
+
+	/**
+	 * Nodes kept only as potential ancestors of `include` matches, with their
+	 * parents, in the order they were created. Those left without children are
+	 * removed once traversal ends.
+	 */
+	provisional: { node: PropertyTreeNode; parent: PropertyTreeNode }[];
+
+	/**
+	 * Work waiting on Promises and async iterables, run by `buildPropertyTreeAsync`
+	 * between passes over the queue. Only set for async traversals.
+	 */
+	deferred?: (() => Promise<void>)[];
+
+	/**
+	 * The sizes measured from node values (see `measureValueSize`). Only set
+	 * when `collectStats` is enabled.
+	 */
+	measured?: Map<PropertyTreeNode, number>;
+}
+
+/** The outcome of waiting for a Promise to settle (see `settlePromise`). */
+type SettledResult =
+	| { status: "fulfilled"; value: unknown }
+	| { status: "rejected"; reason: unknown }
+	| { status: "pending" | "timeout" };
+
+/** A `PathFilter` with its globs parsed. */
+type CompiledPathFilter = PathGlobSegment[][] | PathPredicate;
+
 // --- Internal Helper Functions ---
 
 /**
- * Determines the `PropertyType` of a given JavaScript value.
- * Handles primitives, null, arrays, objects, and functions.
- * @param value - The value to inspect.
- * @returns The corresponding `PropertyType`.
- */
-function getPropertyType(value: unknown): PropertyType {
-	if (value === null) {
-		return "null";
-	}
-	if (Array.isArray(value)) {
-		return "array";
-	}
-	const type = typeof value;
-	switch (type) {
-		case "string":
-		case "number":
-		case "boolean":
-		case "function":
-		case "symbol":
-		case "bigint":
-		case "undefined":
-		case "object": // Catches non-null objects
-			return type;
-		default:
-			// Should not happen for standard JavaScript types, but handles potential edge cases.
-			console.warn("Encountered unexpected typeof result:", type);
-			return "error"; // Treat unexpected types as errors
+ * Computes the string stored in `value` for built-in types listed in
+ * `DISPLAY_VALUE_TYPES`.
+ * @param value - A `Date` or `RegExp`.
+ * @param type - The value's `PropertyType`.
+ * @returns The ISO timestamp (or "Invalid Date") for dates, or the regexp literal.
+ */
+function getDisplayValue(value: Date | RegExp, type: PropertyType): string {
+	if (type === "date") {
+		const date = value as Date;
+		return Number.isNaN(date.getTime()) ? "Invalid Date" : date.toISOString();
+	}
+	return String(value);
+}
+
+/**
+ * Records the class name of an object on its node (see `PropertyTreeNode.className`),
+ * or flags it as having a `null` prototype. The constructor is found by reading
+ * `constructor` data properties along the prototype chain via property descriptors,
+ * so no getters or proxy `get` traps are invoked.
+ * @param node - The node to annotate.
+ * @param value - The object the node represents.
+ */
+function assignClassName(node: PropertyTreeNode, value: object): void {
+	let proto: object | null;
+	try {
+		proto = Object.getPrototypeOf(value);
+		if (proto === null) {
+			node.hasNullPrototype = true;
+			return;
+		}
+
+		while (proto !== null) {
+			const descriptor = Object.getOwnPropertyDescriptor(proto, "constructor");
+			if (descriptor && Object.hasOwn(descriptor, "value")) {
+				const ctor: unknown = descriptor.value;
+				const name = typeof ctor === "function" ? ctor.name : "";
+				if (name && name !== DEFAULT_CLASS_NAMES[node.type]) {
+					node.className = name;
+				}
+				return;
+			}
+			proto = Object.getPrototypeOf(proto);
+		}
+	} catch {
+		// Proxies can throw from their prototype traps; the class name is optional.
+	}
+}
+
+/**
+ * Records a node's path, along with its JavaScript property access and
+ * JSON Pointer renderings.
+ * @param node - The node to annotate.
+ * @param path - The path from the root to the node.
+ * @param rootName - The name of the root node.
+ * @returns The same node, for chaining.
+ */
+function withPath(
+	node: PropertyTreeNode,
+	path: PathSegment[],
+	rootName: string,
+): PropertyTreeNode {
+	node.path = path;
+	node.jsPath = formatJsPath(rootName, path);
+	node.jsonPointer = formatJsonPointer(path);
+	return node;
+}
+
+/**
+ * Determines whether a getter should be invoked under the configured `AccessorPolicy`.
+ * @param key - The property key of the accessor.
+ * @param policy - The accessor policy from the build options.
+ * @returns `true` if the getter may be called.
+ */
+function shouldInvokeGetter(
+	key: string | symbol,
+	policy: AccessorPolicy,
+): boolean {
+	if (policy === "invoke") return true;
+	if (policy === "skip") return false;
+	const name = String(key);
+	return policy.allow.some((pattern) =>
+		typeof pattern === "string" ? pattern === name : pattern.test(name)
+	);
+}
+
+/**
+ * Extracts the attributes of a property descriptor for `PropertyTreeNode.descriptor`.
+ * @param descriptor - The property descriptor.
+ * @returns The descriptor's attributes.
+ */
+function getDescriptorInfo(
+	descriptor: PropertyDescriptor,
+): PropertyDescriptorInfo {
+	const enumerable = descriptor.enumerable ?? false;
+	const configurable = descriptor.configurable ?? false;
+	if (Object.hasOwn(descriptor, "get") || Object.hasOwn(descriptor, "set")) {
+		return {
+			kind: "accessor",
+			enumerable,
+			configurable,
+			hasGetter: typeof descriptor.get === "function",
+			hasSetter: typeof descriptor.set === "function",
+		};
+	}
+	return {
+		kind: "data",
+		writable: descriptor.writable ?? false,
+		enumerable,
+		configurable,
+	};
+}
+
+/**
+ * Returns the marker shown in place of an accessor property's value when its
+ * getter is not invoked.
+ * @param descriptor - The accessor's attributes.
+ * @returns `[Getter]`, `[Setter]` or `[Getter/Setter]`.
+ */
+function getAccessorMarker(descriptor: PropertyDescriptorInfo): string {
+	if (descriptor.hasGetter && descriptor.hasSetter) return GETTER_SETTER_MARKER;
+	return descriptor.hasGetter ? GETTER_MARKER : SETTER_MARKER;
+}
+
+/**
+ * Copies the class name and summary from an inspect hook or type handler onto a node.
+ * @param node - The node.
+ * @param inspection - The custom description, if any.
+ */
+function applyInspection(
+	node: PropertyTreeNode,
+	inspection: InspectResult | undefined,
+): void {
+	if (inspection?.className !== undefined) {
+		node.className = inspection.className;
+	}
+	if (inspection?.summary !== undefined) {
+		node.summary = inspection.summary;
+	}
+}
+
+/**
+ * Determines whether a node should be expanded: custom children always are,
+ * while values with a custom summary are not. Functions are expanded with
+ * `expandFunctions`.
+ * @param type - The value's type.
+ * @param inspection - The custom description, if any.
+ * @param options - The resolved build options.
+ * @returns `true` if the node should get children (depth permitting).
+ */
+function shouldExpand(
+	type: PropertyType,
+	inspection: InspectResult | undefined,
+	options: ResolvedBuildOptions,
+): boolean {
+	if (inspection?.children !== undefined) return true;
+	return inspection?.summary === undefined &&
+		(EXPANDABLE_TYPES.has(type) || (type === "function" && options.expandFunctions));
+}
+
+/**
+ * Validates a `maxChildren` or `maxArrayItems` option.
+ * @param name - The option's name, for the error message.
+ * @param limit - The option's value.
+ * @throws {RangeError} If the limit contains a negative or non-integer count.
+ */
+function validateChildLimit(name: string, limit: ChildLimit | null): void {
+	if (limit === null) return;
+	const counts = typeof limit === "number" ? [limit] : [limit.head, limit.tail];
+	if (counts.some((count) => !Number.isInteger(count) || count < 0)) {
+		throw new RangeError(
+			`Invalid ${name}: ${JSON.stringify(limit)}. Counts must be non-negative integers.`,
+		);
+	}
+}
+
+/**
+ * Validates the options used only by `buildPropertyTreeAsync`.
+ * @param options - The resolved build options.
+ * @throws {RangeError} If `promiseTimeoutMs` is negative or not a number, or
+ * `asyncIterableLimit` is not a non-negative integer or null.
+ */
+function validateAsyncOptions(options: ResolvedBuildOptions): void {
+	const { promiseTimeoutMs, asyncIterableLimit } = options;
+	if (!(promiseTimeoutMs >= 0)) {
+		throw new RangeError(
+			`Invalid promiseTimeoutMs: ${promiseTimeoutMs}. Must be a non-negative number.`,
+		);
+	}
+	if (
+		asyncIterableLimit !== null &&
+		(!Number.isInteger(asyncIterableLimit) || asyncIterableLimit < 0)
+	) {
+		throw new RangeError(
+			`Invalid asyncIterableLimit: ${asyncIterableLimit}. Must be a non-negative integer or null.`,
+		);
+	}
+}
+
+/**
+ * Validates the `maxNodes` and `maxTimeMs` options.
+ * @param options - The resolved build options.
+ * @throws {RangeError} If `maxNodes` is not a positive integer, or `maxTimeMs`
+ * is negative or not a number.
+ */
+function validateBudgets(options: ResolvedBuildOptions): void {
+	const { maxNodes, maxTimeMs } = options;
+	if (maxNodes !== null && (!Number.isInteger(maxNodes) || maxNodes < 1)) {
+		throw new RangeError(
+			`Invalid maxNodes: ${maxNodes}. Must be a positive integer or null.`,
+		);
+	}
+	if (maxTimeMs !== null && !(maxTimeMs >= 0)) {
+		throw new RangeError(
+			`Invalid maxTimeMs: ${maxTimeMs}. Must be a non-negative number or null.`,
+		);
+	}
+}
+
+/**
+ * Validates `functionSourceLength`.
+ * @param options - The resolved build options.
+ * @throws {RangeError} If `functionSourceLength` is negative or not an integer.
+ */
+function validateFunctionSourceLength(options: ResolvedBuildOptions): void {
+	const { functionSourceLength } = options;
+	if (
+		functionSourceLength !== null &&
+		(!Number.isInteger(functionSourceLength) || functionSourceLength < 0)
+	) {
+		throw new RangeError(
+			`Invalid functionSourceLength: ${functionSourceLength}. Must be a non-negative integer or null.`,
+		);
+	}
+}
+
+/**
+ * Works out which of a node's children are kept under the applicable child limit:
+ * those before `headEnd` and those from `tailStart` on. Children in between are
+ * replaced by an elision node.
+ * @param item - The work item whose children are being processed.
+ * @param total - The number of children.
+ * @param context - The shared traversal state.
+ * @param isArrayItems - Whether the children are array or typed array elements,
+ * to which `maxArrayItems` applies. Defaults to whether the parent is an array
+ * or typed array.
+ * @returns The kept range. `headEnd === tailStart` when nothing is left out.
+ */
+function getKeptRange(
+	item: WorkItem,
+	total: number,
+	context: TraversalContext,
+	isArrayItems = item.parent.type === "array" || item.parent.type === "typedarray",
+): { headEnd: number; tailStart: number } {
+	const { maxChildren, maxArrayItems } = context.options;
+	const limit = (isArrayItems ? maxArrayItems : null) ?? maxChildren;
+	if (limit === null) {
+		return { headEnd: total, tailStart: total };
+	}
+	const { head, tail } = typeof limit === "number" ? { head: limit, tail: 0 } : limit;
+	if (head + tail >= total) {
+		return { headEnd: total, tailStart: total };
 	}
+	return { headEnd: head, tailStart: total - tail };
 }
 
 /**
- * Processes a single child property (for objects) or element (for arrays).
+ * Creates the node standing in for children left out by a child limit,
+ * e.g. `… 49,990 more items`.
+ * @param parentType - The type of the node whose children were left out.
+ * @param count - The number of children left out.
+ * @returns The elision node.
+ */
+function createElisionNode(
+	parentType: PropertyType,
+	count: number,
+): PropertyTreeNode {
+	const [singular, plural] = ELIDED_CHILD_UNITS[parentType] ?? ["item", "items"];
+	return {
+		name: `… ${count.toLocaleString("en-US")} more ${count === 1 ? singular : plural}`,
+		type: "elision",
+		elidedCount: count,
+	};
+}
+
+/**
+ * Creates the node standing in for a run of holes in a sparse array, e.g.
+ * `<3 empty items>`.
+ * @param count - The number of consecutive holes.
+ * @returns The elision node.
+ */
+function createHoleNode(count: number): PropertyTreeNode {
+	return {
+		name: `<${count.toLocaleString("en-US")} empty ${count === 1 ? "item" : "items"}>`,
+		type: "elision",
+		elidedCount: count,
+		isHole: true,
+	};
+}
+
+/**
+ * Determines whether a property key is an array index, e.g. `"0"` but not
+ * `"01"`, `"length"` or `"-1"`.
+ * @param key - The property key.
+ * @returns `true` if the key is an array index.
+ */
+function isArrayIndexKey(key: string | symbol): boolean {
+	return typeof key === "string" && /^(?:0|[1-9]\d*)$/.test(key) &&
+		Number(key) < 2 ** 32 - 1;
+}
+
+/**
+ * Determines whether an array has a hole at an index, i.e. no element at all
+ * (as opposed to an `undefined` element).
+ * @param array - The array.
+ * @param index - The index.
+ * @returns `true` if there is no element at the index. Proxies that throw are
+ * treated as having an element, so that reading it records the error.
+ */
+function isHole(array: unknown[], index: number): boolean {
+	try {
+		return !Object.hasOwn(array, index);
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Finds the first element of a sparse array at or after an index, so runs of
+ * holes can be skipped without visiting each index.
+ * @param indices - The indices of the array's elements, in ascending order.
+ * @param from - The index to search from.
+ * @returns The index of the next element, or `undefined` if there is none.
+ */
+function findNextElement(indices: readonly number[], from: number): number | undefined {
+	let low = 0;
+	let high = indices.length;
+	while (low < high) {
+		const middle = (low + high) >>> 1;
+		if (indices[middle] < from) {
+			low = middle + 1;
+		} else {
+			high = middle;
+		}
+	}
+	return indices[low];
+}
+
+/**
+ * Normalises the arguments accepted by `buildPropertyTree` and `logPropertyTree`
+ * (either the positional `maxDepth`/`rootName` pair or a `BuildOptions` object)
+ * into a complete set of options.
+ * @param maxDepthOrOptions - A maximum depth, or a `BuildOptions` object.
+ * @param rootName - The root name, when using the positional form.
+ * @returns The resolved options.
+ */
+function resolveBuildOptions(
+	maxDepthOrOptions: number | BuildOptions | undefined,
+	rootName: string | undefined,
+): ResolvedBuildOptions {
+	if (typeof maxDepthOrOptions === "number") {
+		return {
+			...DEFAULT_BUILD_OPTIONS,
+			maxDepth: maxDepthOrOptions,
+			rootName: rootName ?? DEFAULT_BUILD_OPTIONS.rootName,
+		};
+	}
+	return applyDefaults(DEFAULT_BUILD_OPTIONS, maxDepthOrOptions);
+}
+
+/**
+ * Collects the property keys of an object that should become child nodes,
+ * according to the `includeSymbols`, `includeNonEnumerable` and `includeInherited`
+ * options. Own keys come first (in `Reflect.ownKeys` order, which matches
+ * `Object.keys` for string keys), followed by inherited keys from each prototype
+ * in turn. Inherited keys shadowed by a closer definition are skipped. With
+ * `deterministic`, the keys of each object are sorted with `compareKeys`.
+ *
+ * @param obj - The object whose keys should be collected.
+ * @param options - The resolved build options.
+ * @returns The collected keys, with the flags to record on each node.
+ */
+function collectPropertyKeys(
+	obj: object,
+	options: ResolvedBuildOptions,
+): CollectedKey[] {
+	// Fast path for the default options.
+	if (
+		!options.includeSymbols &&
+		!options.includeNonEnumerable &&
+		!options.includeInherited
+	) {
+		const keys = Object.keys(obj);
+		if (options.deterministic) keys.sort(compareKeys);
+		return keys.map((key) => ({ key, owner: obj, flags: {} }));
+	}
+
+	const collected: CollectedKey[] = [];
+	// Tracks every key seen so far (including filtered ones) so that
+	// inherited properties shadowed by a closer definition are not reported.
+	const seen = new Set<string | symbol>();
+	let owner: object | null = obj;
+	let inherited = false;
+
+	while (owner !== null && owner !== Object.prototype) {
+		const keys = Reflect.ownKeys(owner);
+		if (options.deterministic) keys.sort(compareKeys);
+		for (const key of keys) {
+			if (seen.has(key)) {
+				continue;
+			}
+			seen.add(key);
+
+			const isSymbolKey = typeof key === "symbol";
+			if (isSymbolKey && !options.includeSymbols) {
+				continue;
+			}
+			const isNonEnumerable = !Object.prototype.propertyIsEnumerable.call(
+				owner,
+				key,
+			);
+			if (isNonEnumerable && !options.includeNonEnumerable) {
+				continue;
+			}
+
+			const flags: PropertyKeyFlags = {};
+			if (isSymbolKey) flags.isSymbolKey = true;
+			if (isNonEnumerable) flags.isNonEnumerable = true;
+			if (inherited) flags.isInherited = true;
+			collected.push({ key, owner, flags });
+		}
+
+		if (!options.includeInherited) {
+			break;
+		}
+		owner = Object.getPrototypeOf(owner);
+		inherited = true;
+	}
+
+	return collected;
+}
+
+/**
+ * Processes a single child property (for objects), element (for arrays), entry
+ * (for Maps) or member (for Sets).
  * Creates a `PropertyTreeNode` for the child, attaches it to the parent,
  * assigns its value if appropriate (primitive or marker), and potentially adds
- * it to the work queue for further traversal if it's an object/array and
- * within the depth limit. Handles circular reference detection before queueing.
+ * it to the work queue for further traversal if it's an expandable type and
+ * within the depth limit. Handles circular (and, when deduplicating, shared)
+ * reference detection before queueing.
  *
  * @param parentNode - The parent `PropertyTreeNode` to add the child node to.
- * @param keyOrIndex - The property key (string) or array index (number).
+ * @param parentPath - The path from the root to the parent.
+ * @param segment - The child's property key, index or Map key.
  * @param value - The value of the child property/element.
  * @param currentDepth - The depth of the `parentNode`.
- * @param maxDepth - The maximum depth to traverse.
- * @param visited - The set of visited objects for the current traversal path.
- * @param queue - The work queue for the iterative traversal.
+ * @param visited - The objects visited along the current traversal path, with their paths.
+ * @param included - Whether the child is known to match `BuildOptions.include`
+ * (see `filterChildPath`).
+ * @param context - The shared traversal state (options and work queue).
+ * @param flags - Flags describing how the key was found, and the property's
+ * descriptor attributes, copied onto the node.
  */
 function processChild(
 	parentNode: PropertyTreeNode,
-	keyOrIndex: string | number,
+	parentPath: PathSegment[],
+	segment: PathSegment,
 	value: unknown,
 	currentDepth: number,
-	maxDepth: number,
-	visited: Set<object>,
-	queue: WorkItem[],
+	visited: Map<object, PathSegment[]>,
+	included: boolean,
+	context: TraversalContext,
+	flags: PropertyKeyFlags & Pick<PropertyTreeNode, "descriptor"> = {},
 ): void {
-	const childName = String(keyOrIndex); // Ensure the name is a string (e.g., "0" -> "0", "[0]" -> "[0]")
-	const childType = getPropertyType(value);
+	const { maxDepth, rootName } = context.options;
+	const childName = getSegmentName(segment);
+	let childType = getPropertyType(value);
+	const childPath = [...parentPath, segment];
 
-	const childNode: PropertyTreeNode = {
-		name: childName,
-		type: childType,
-	};
+	// Async traversals build the node from the Promise's value once it settles.
+	if (context.deferred && childType === "promise") {
+		deferPromise(
+			parentNode,
+			parentPath,
+			segment,
+			value as Promise<unknown>,
+			currentDepth,
+			visited,
+			included,
+			context,
+			flags,
+		);
+		return;
+	}
+
+	// Predicate filters need the value, so are applied once it has been read.
+	const { include, exclude } = context.filters;
+	if (typeof exclude === "function" && exclude(childPath, value, childType)) {
+		return;
+	}
+	if (!included && typeof include === "function") {
+		included = include(childPath, value, childType);
+	}
+
+	// Inspect hooks and type handlers can replace the value, or describe it themselves.
+	const inspection = getCustomInspection(
+		value,
+		childPath,
+		context.onError,
+		shouldInvokeGetter(INSPECT_SYMBOL, context.options.accessors),
+	);
+	if (inspection && Object.hasOwn(inspection, "value")) {
+		value = inspection.value;
+		childType = getPropertyType(value);
+	}
+
+	const childNode = withPath(
+		{ name: childName, type: childType, ...flags },
+		childPath,
+		rootName,
+	);
 
 	// parentNode.children is guaranteed to be initialised before this function is called
-	// for expandable parent types by the calling logic in buildPropertyTree.s
-	parentNode.children?.push(childNode);
+	// for expandable parent types by the calling logic in buildPropertyTree.
+	addChild(parentNode, childNode, context);
+	if (!included) {
+		context.provisional.push({ node: childNode, parent: parentNode });
+	}
 
-	// Assign the 'value' property ONLY if it's a primitive type or null/undefined.
-	// Functions, regular objects, and arrays do not get a 'value' property assigned here.
-	if (
-		childType !== "object" &&
-		childType !== "array" &&
-		childType !== "function"
-	) {
+	// Assign the 'value' property ONLY if it's a primitive type or null/undefined,
+	// or the string representation of a Date/RegExp.
+	// Functions and other objects do not get a 'value' property assigned here.
+	if (PRIMITIVE_TYPES.has(childType)) {
 		childNode.value = value;
+	} else if (DISPLAY_VALUE_TYPES.has(childType)) {
+		childNode.value = getDisplayValue(value as Date | RegExp, childType);
 	}
+	if (childType === "function") {
+		childNode.functionInfo = describeFunction(
+			value as (...args: never[]) => unknown,
+			context.options.functionSourceLength,
+		);
+	} else if (!PRIMITIVE_TYPES.has(childType)) {
+		assignClassName(childNode, value as object);
+	}
+	applyInspection(childNode, inspection);
+	measureNode(childNode, value, context);
 
-	// Check if the child needs further processing (is expandable object/array,
-	// not null, and within depth limits).
+	// Check if the child needs further processing (is an expandable type, or
+	// has custom children, not null, and within depth limits).
 	if (
 		currentDepth + 1 < maxDepth &&
-		(childType === "object" || childType === "array") &&
+		shouldExpand(childType, inspection, context.options) &&
 		value !== null // Ensures we don't try to process null as an object/array
 	) {
 		const valueAsObjectOrArray = value as object | unknown[];
+		const dedupe = context.options.references === "dedupe";
 
 		// Check for circular references *before* queueing.
-		if (visited.has(valueAsObjectOrArray)) {
+		const ancestorPath = visited.get(valueAsObjectOrArray);
+		if (ancestorPath) {
 			// Assign the circular reference marker to the 'value' property.
 			// This is one case where an 'object' or 'array' type node gets a 'value'.
 			childNode.value = CIRCULAR_REFERENCE_MARKER;
+			childNode.reference = {
+				kind: "circular",
+				path: formatJsPath(rootName, ancestorPath),
+			};
+			if (dedupe) {
+				// The ancestor is always the single expanded occurrence when deduplicating.
+				childNode.reference.id = assignRefId(
+					context,
+					valueAsObjectOrArray,
+				);
+			}
 			// Do not queue or add children array for circular references.
+		} else if (dedupe && context.expanded.has(valueAsObjectOrArray)) {
+			// Already expanded in another branch; refer back to it instead.
+			const target = context.expanded.get(valueAsObjectOrArray);
+			childNode.value = SHARED_REFERENCE_MARKER;
+			childNode.reference = {
+				kind: "shared",
+				id: assignRefId(context, valueAsObjectOrArray),
+				path: target?.jsPath ?? rootName,
+			};
 		} else {
 			// It's an expandable, non-circular object/array within depth.
 			// Initialise children array for the node.
 			childNode.children = [];
+			if (dedupe) {
+				context.expanded.set(valueAsObjectOrArray, childNode);
+			}
 
-			// Create a *new* Set of visited objects for this specific path.
+			// Create a *new* Map of visited objects for this specific path.
 			// This prevents siblings from interfering with each other's cycle detection.
-			const childVisited = new Set(visited);
-			childVisited.add(valueAsObjectOrArray);
+			const childVisited = new Map(visited);
+			childVisited.set(valueAsObjectOrArray, childPath);
 
 			// Add the child to the queue for its properties/elements to be processed.
-			queue.push({
-				obj: valueAsObjectOrArray,
+			const childItem: WorkItem = {
+				obj: inspection?.children ?? valueAsObjectOrArray,
 				name: childName,
+				path: childPath,
 				depth: currentDepth + 1,
 				parent: childNode,
+				isCustom: inspection?.children !== undefined,
+				included,
 				visited: childVisited,
-			});
+			};
+			if (
+				context.deferred && context.options.asyncIterableLimit !== null &&
+				!childItem.isCustom && isAsyncIterable(value)
+			) {
+				deferAsyncIterable(childItem, value, context);
+			} else {
+				context.queue.push(childItem);
+			}
 		}
 	}
 	// Note: No 'else' block is needed here to handle reaching max depth for
@@ -217,225 +898,1182 @@ function processChild(
 }
 
 /**
- * Recursively formats a `PropertyTreeNode` and its children into a
- * human-readable string representation with indentation and tree connectors.
- *
- * @param node - The `PropertyTreeNode` to format.
- * @param indent - The indentation string to use for the current level.
- * @param isLast - Boolean indicating if this node is the last sibling at its level.
- * @returns A string representation of the node and its subtree.
+ * Attaches a child node to its parent, counting it towards `maxNodes`. Elision
+ * and hole nodes count too, so callers check the budget before adding any node.
+ * @param parentNode - The parent node, whose `children` array has been initialised.
+ * @param childNode - The node to attach.
+ * @param context - The shared traversal state.
  */
-function formatNodeToString(
+function addChild(
+	parentNode: PropertyTreeNode,
+	childNode: PropertyTreeNode,
+	context: TraversalContext,
+): void {
+	parentNode.children?.push(childNode);
+	context.nodeCount++;
+}
+
+/**
+ * Records the size of a node's value for `collectStats`, where it can be
+ * measured (see `measureValueSize`).
+ * @param node - The node.
+ * @param value - The node's value.
+ * @param context - The shared traversal state.
+ */
+function measureNode(node: PropertyTreeNode, value: unknown, context: TraversalContext): void {
+	if (!context.measured) {
+		return;
+	}
+	const size = measureValueSize(value, node.type);
+	if (size !== undefined) {
+		context.measured.set(node, size);
+	}
+}
+
+/**
+ * Describes an error for `PropertyTreeNode.error`, e.g. `TypeError: not allowed`.
+ * @param error - The thrown value or rejection reason.
+ * @returns The description.
+ */
+function describeError(error: unknown): string {
+	try {
+		return error instanceof Error ? `${error.name}: ${error.message}` : String(error);
+	} catch {
+		// E.g. a null-prototype object, which can't be converted to a string.
+		return "Unknown error";
+	}
+}
+
+/**
+ * Records an error on the node showing it: its description, and its stack
+ * trace if `errorStacks` is enabled.
+ * @param node - The node.
+ * @param error - The thrown value or rejection reason.
+ * @param options - The resolved build options.
+ */
+function recordError(
 	node: PropertyTreeNode,
-	indent = "",
-	isLast = true,
-): string {
-	const prefix = indent + (isLast ? "└─ " : "├─ ");
-	let nodeLine = `${prefix}${node.name} (${node.type})`;
-
-	// Add value information ONLY if the 'value' property actually exists on the node.
-	// This correctly handles primitives, markers, and avoids showing anything for
-	// unexpanded objects/arrays/functions (unless they are circular refs).
-	if (Object.hasOwn(node, "value")) {
-		// Check type again here for clarity, although hasOwn should correspond
-		// to primitives or markers based on processChild logic.
-		if (
-			// Explicitly handle markers which might be on object/array type nodes
-			node.value === CIRCULAR_REFERENCE_MARKER ||
-			node.value === ACCESS_ERROR_MARKER
-		) {
-			nodeLine += `: ${node.value}`;
+	error: unknown,
+	options: ResolvedBuildOptions,
+): void {
+	node.error = describeError(error);
+	if (options.errorStacks && error instanceof Error && typeof error.stack === "string") {
+		node.errorStack = error.stack;
+	}
+}
+
+/**
+ * Creates an `[Access Error]` node in place of a value that couldn't be read,
+ * recording the error on it and passing it to `onError`.
+ * @param name - The node's name.
+ * @param path - The path from the root to the value.
+ * @param error - The thrown value.
+ * @param context - The shared traversal state.
+ * @param flags - Key flags for the node.
+ * @returns The new node.
+ */
+function createAccessErrorNode(
+	name: string,
+	path: PathSegment[],
+	error: unknown,
+	context: TraversalContext,
+	flags: PropertyKeyFlags = {},
+): PropertyTreeNode {
+	const node = withPath(
+		{ name, type: "error", value: ACCESS_ERROR_MARKER, ...flags },
+		path,
+		context.options.rootName,
+	);
+	recordError(node, error, context.options);
+	context.onError?.(error, path);
+	return node;
+}
+
+/**
+ * Creates the receiver of the errors caught while building a tree, which logs
+ * them with `console.error` unless `silent` is set, then passes them to
+ * `onError`.
+ * @param options - The resolved build options.
+ * @returns The receiver, or `null` if errors are neither logged nor handled.
+ */
+function createErrorHandler(options: ResolvedBuildOptions): ErrorHandler | null {
+	const { onError, rootName, silent } = options;
+	if (silent) {
+		return onError;
+	}
+	return (error, path) => {
+		console.error(`Error building property tree at ${formatJsPath(rootName, path)}:`, error);
+		onError?.(error, path);
+	};
+}
+
+/**
+ * Adds a `[Redacted]` node in place of a child matched by `BuildOptions.redact`.
+ * The child's value is never read.
+ * @param parentNode - The parent node.
+ * @param parentPath - The path from the root to the parent.
+ * @param segment - The child's property key, index or Map key.
+ * @param included - Whether the child is known to match `BuildOptions.include`.
+ * @param context - The shared traversal state.
+ * @param flags - Flags and descriptor attributes to copy onto the node.
+ * @returns `true` if the child was redacted, in which case it must not be processed.
+ */
+function redactChild(
+	parentNode: PropertyTreeNode,
+	parentPath: PathSegment[],
+	segment: PathSegment,
+	included: boolean,
+	context: TraversalContext,
+	flags: PropertyKeyFlags & Pick<PropertyTreeNode, "descriptor"> = {},
+): boolean {
+	const childPath = [...parentPath, segment];
+	if (!context.isRedacted?.(childPath)) {
+		return false;
+	}
+	addLeafChild(
+		parentNode,
+		withPath(
+			{
+				name: getSegmentName(segment),
+				type: "redacted",
+				value: REDACTED_MARKER,
+				...flags,
+			},
+			childPath,
+			context.options.rootName,
+		),
+		included,
+		context,
+	);
+	return true;
+}
+
+/**
+ * Adds a node whose value is a marker rather than the property's value, such
+ * as a redacted or uninvoked accessor property, subject to the `include` and
+ * `exclude` filters. Predicates are called with the marker and the node's type.
+ * @param parentNode - The parent node.
+ * @param node - The leaf node, with its path.
+ * @param included - Whether the node is known to match `BuildOptions.include`.
+ * @param context - The shared traversal state.
+ */
+function addLeafChild(
+	parentNode: PropertyTreeNode,
+	node: PropertyTreeNode,
+	included: boolean,
+	context: TraversalContext,
+): void {
+	if (keepsLeaf(node, included, context)) {
+		addChild(parentNode, node, context);
+	}
+}
+
+/**
+ * Determines whether a leaf node whose value is a marker passes the `include`
+ * and `exclude` filters. Predicates are called with the marker and the node's type.
+ * @param node - The leaf node, with its path.
+ * @param included - Whether the node is known to match `BuildOptions.include`.
+ * @param context - The shared traversal state.
+ * @returns `true` if the node should be kept.
+ */
+function keepsLeaf(
+	node: PropertyTreeNode,
+	included: boolean,
+	context: TraversalContext,
+): boolean {
+	const { include, exclude } = context.filters;
+	const path = node.path ?? [];
+	if (typeof exclude === "function" && exclude(path, node.value, node.type)) {
+		return false;
+	}
+	// A leaf can't lead to a match, so it's only kept if it matches itself.
+	return included || (typeof include === "function" && include(path, node.value, node.type));
+}
+
+/**
+ * Applies the `include` and `exclude` globs to a child before its value is read.
+ * @param item - The work item holding the child's parent.
+ * @param segment - The child's property key, index or Map key.
+ * @param context - The shared traversal state.
+ * @returns `undefined` if the child is left out. Otherwise, `true` if it matches
+ * `include` (or an ancestor does), or `false` if it is only kept if one of its
+ * descendants turns out to match.
+ */
+function filterChildPath(
+	item: WorkItem,
+	segment: PathSegment,
+	context: TraversalContext,
+): boolean | undefined {
+	const { include, exclude } = context.filters;
+	const childPath = [...item.path, segment];
+	if (
+		exclude !== null && typeof exclude !== "function" &&
+		exclude.some((glob) => matchPathGlob(glob, childPath).matches)
+	) {
+		return undefined;
+	}
+	if (item.included || include === null) {
+		return true;
+	}
+	if (typeof include === "function") {
+		// Decided by processChild, once the value has been read.
+		return false;
+	}
+	let leadsToMatch = false;
+	for (const glob of include) {
+		const { matches, matchesDescendants } = matchPathGlob(glob, childPath);
+		if (matches) return true;
+		leadsToMatch ||= matchesDescendants;
+	}
+	return leadsToMatch ? false : undefined;
+}
+
+/**
+ * Parses the globs of an `include` or `exclude` filter.
+ * @param filter - The filter from the build options.
+ * @returns The compiled filter.
+ * @throws {SyntaxError} If a glob is malformed.
+ */
+function compilePathFilter(filter: PathFilter | null): CompiledPathFilter | null {
+	if (filter === null || typeof filter === "function") {
+		return filter;
+	}
+	return filter.map(parsePathGlob);
+}
+
+/**
+ * Removes the nodes kept only as potential ancestors of `include` matches that
+ * ended up without any children. Nodes are visited in reverse creation order,
+ * so descendants are removed before their ancestors are checked.
+ * @param context - The shared traversal state.
+ */
+function pruneProvisionalNodes(context: TraversalContext): void {
+	for (let i = context.provisional.length - 1; i >= 0; i--) {
+		const { node, parent } = context.provisional[i];
+		if (!node.children || node.children.length === 0) {
+			parent.children?.splice(parent.children.indexOf(node), 1);
+		}
+	}
+}
+
+/**
+ * Determines whether traversal has to stop because the `maxNodes` or
+ * `maxTimeMs` budget has run out, recording which one in the context.
+ * @param context - The shared traversal state.
+ * @returns `true` once a budget has run out.
+ */
+function isBudgetExhausted(context: TraversalContext): boolean {
+	if (context.exhausted === undefined) {
+		const { maxNodes, maxTimeMs } = context.options;
+		if (maxNodes !== null && context.nodeCount >= maxNodes) {
+			context.exhausted = "maxNodes";
 		} else if (
-			node.type !== "object" &&
-			node.type !== "array" &&
-			node.type !== "function"
+			maxTimeMs !== null && performance.now() - context.startTime >= maxTimeMs
 		) {
-			// Handle primitive display
-			if (typeof node.value === "string") {
-				const displayValue = node.value.replace(/\n/g, "\\n").slice(0, 50);
-				nodeLine += `: "${displayValue}${node.value.length > 50 ? "..." : ""}"`;
-			} else {
-				// Includes numbers, booleans, null, undefined, bigint, symbol
-				nodeLine += `: ${String(node.value)}`;
+			context.exhausted = "maxTimeMs";
+		}
+	}
+	return context.exhausted !== undefined;
+}
+
+/**
+ * Marks a node whose children were not (fully) processed with the
+ * `[Truncated]` marker. Nodes left without any children lose their empty
+ * `children` array, like unexpanded nodes.
+ * @param node - The node to mark.
+ * @param context - The shared traversal state.
+ */
+function markTruncated(node: PropertyTreeNode, context: TraversalContext): void {
+	if (node.children?.length === 0) {
+		delete node.children;
+	}
+	node.value = TRUNCATED_MARKER;
+	context.truncatedCount++;
+}
+
+/**
+ * Returns the reference id of an expanded object, assigning the next id to its
+ * node the first time it's referred back to. Ids are therefore numbered in the
+ * order references are discovered.
+ * @param context - The shared traversal state.
+ * @param target - An object already expanded in the tree.
+ * @returns The target's reference id.
+ */
+function assignRefId(context: TraversalContext, target: object): number {
+	// deno-lint-ignore no-non-null-assertion
+	const node = context.expanded.get(target)!; // Every visited object has been expanded
+	node.refId ??= context.nextRefId++;
+	return node.refId;
+}
+
+/**
+ * Processes the elements of a queued array or typed array, adding a child node
+ * named `[index]` for each element. Runs of holes in sparse arrays are
+ * collapsed into a single `<N empty items>` node, and the named (non-index)
+ * properties of arrays are added after the elements, like object properties.
+ *
+ * @param item - The work item holding the array.
+ * @param context - The shared traversal state.
+ */
+function processArrayElements(item: WorkItem, context: TraversalContext): void {
+	const { path, depth: currentDepth, parent: parentNode, visited } = item;
+	const currentObj = item.obj as ArrayLike<unknown>;
+	const { headEnd, tailStart } = getKeptRange(item, currentObj.length, context);
+	const array = parentNode.type === "array" && Array.isArray(currentObj) ? currentObj : undefined;
+	// The indices of the array's elements, listed the first time a hole is found.
+	let elementIndices: number[] | undefined;
+
+	for (let i = 0; i < currentObj.length; i++) {
+		if (isBudgetExhausted(context)) {
+			markTruncated(parentNode, context);
+			return;
+		}
+		if (i === headEnd && headEnd < tailStart) {
+			// Skip straight past the left-out elements without reading them.
+			addChild(
+				parentNode,
+				createElisionNode(parentNode.type, tailStart - headEnd),
+				context,
+			);
+			i = tailStart - 1;
+			continue;
+		}
+		if (array && isHole(array, i)) {
+			elementIndices ??= Object.getOwnPropertyNames(array)
+				.filter(isArrayIndexKey)
+				.map(Number);
+			// Holes before a child limit's elision end where it starts.
+			const end = Math.min(
+				findNextElement(elementIndices, i) ?? array.length,
+				i < headEnd ? headEnd : array.length,
+			);
+			addChild(parentNode, createHoleNode(end - i), context);
+			i = end - 1;
+			continue;
+		}
+		const included = filterChildPath(item, i, context);
+		if (included === undefined || redactChild(parentNode, path, i, included, context)) {
+			continue;
+		}
+		try {
+			const childValue = currentObj[i];
+			processChild(
+				parentNode,
+				path,
+				i,
+				childValue,
+				currentDepth,
+				visited,
+				included,
+				context,
+			);
+		} catch (error) {
+			// This catch block is less common for simple array access but
+			// might be relevant if elements have complex access behaviour
+			// (e.g., proxies or elements being objects with throwing getters accessed indirectly).
+			addChild(
+				parentNode,
+				createAccessErrorNode(`[${i}]`, [...path, i], error, context),
+				context,
+			);
+		}
+	}
+
+	if (array) {
+		const namedKeys = collectPropertyKeys(array, context.options).filter(
+			({ key, owner }) => owner !== array || !isArrayIndexKey(key),
+		);
+		if (namedKeys.length > 0) {
+			processObjectProperties(item, context, namedKeys);
+		}
+	}
+}
+
+/**
+ * Processes the entries of a queued Map, adding a child node for each entry's
+ * value, named after its key (see `describeMapKey`), e.g. `"theme" =>`.
+ *
+ * @param item - The work item holding the Map.
+ * @param context - The shared traversal state.
+ */
+function processMapEntries(item: WorkItem, context: TraversalContext): void {
+	const { path, depth: currentDepth, parent: parentNode, visited } = item;
+
+	try {
+		const map = item.obj as Map<unknown, unknown>;
+		const { headEnd, tailStart } = getKeptRange(item, map.size, context);
+		let i = 0;
+		for (const [key, value] of map) {
+			if (isBudgetExhausted(context)) {
+				markTruncated(parentNode, context);
+				return;
+			}
+			if (i === headEnd && headEnd < tailStart) {
+				addChild(
+					parentNode,
+					createElisionNode(parentNode.type, tailStart - headEnd),
+					context,
+				);
+			}
+			const included = i >= headEnd && i < tailStart
+				? undefined
+				: filterChildPath(item, { mapKey: key }, context);
+			if (
+				included === undefined ||
+				redactChild(parentNode, path, { mapKey: key }, included, context)
+			) {
+				i++;
+				continue;
+			}
+			processChild(
+				parentNode,
+				path,
+				{ mapKey: key },
+				value,
+				currentDepth,
+				visited,
+				included,
+				context,
+			);
+			i++;
+		}
+	} catch (error) {
+		// Iteration can fail for Map-like proxies and other exotic objects.
+		addChild(
+			parentNode,
+			createAccessErrorNode("[entries]", [...path, "[entries]"], error, context),
+			context,
+		);
+	}
+}
+
+/**
+ * Processes the members of a queued Set, adding a child node named `[index]`
+ * for each member, in iteration order.
+ *
+ * @param item - The work item holding the Set.
+ * @param context - The shared traversal state.
+ */
+function processSetMembers(item: WorkItem, context: TraversalContext): void {
+	const { path, depth: currentDepth, parent: parentNode, visited } = item;
+
+	try {
+		const set = item.obj as Set<unknown>;
+		const { headEnd, tailStart } = getKeptRange(item, set.size, context);
+		let i = 0;
+		for (const member of set) {
+			if (isBudgetExhausted(context)) {
+				markTruncated(parentNode, context);
+				return;
+			}
+			if (i === headEnd && headEnd < tailStart) {
+				addChild(
+					parentNode,
+					createElisionNode(parentNode.type, tailStart - headEnd),
+					context,
+				);
 			}
+			const included = i >= headEnd && i < tailStart
+				? undefined
+				: filterChildPath(item, i, context);
+			if (included === undefined || redactChild(parentNode, path, i, included, context)) {
+				i++;
+				continue;
+			}
+			processChild(
+				parentNode,
+				path,
+				i,
+				member,
+				currentDepth,
+				visited,
+				included,
+				context,
+			);
+			i++;
 		}
-		// Otherwise, if hasOwn is true but it's an object/array/function without a marker,
-		// we don't display the value (shouldn't happen with current logic).
+	} catch (error) {
+		// Iteration can fail for Set-like proxies and other exotic objects.
+		addChild(
+			parentNode,
+			createAccessErrorNode("[members]", [...path, "[members]"], error, context),
+			context,
+		);
 	}
+}
 
-	const lines: string[] = [nodeLine];
+/**
+ * Processes the properties of a queued plain object (or class instance),
+ * adding a child node for each key returned by `collectPropertyKeys`.
+ *
+ * @param item - The work item holding the object.
+ * @param context - The shared traversal state.
+ * @param namedKeys - The named properties of an array, processed after its
+ * elements, in place of the keys collected from the object.
+ */
+function processObjectProperties(
+	item: WorkItem,
+	context: TraversalContext,
+	namedKeys?: CollectedKey[],
+): void {
+	const { path, depth: currentDepth, parent: parentNode, visited } = item;
+	const currentRecord = item.obj as Record<string | symbol, unknown>;
+
+	// By default only own enumerable string keys are collected; symbol,
+	// non-enumerable and inherited keys are opt-in via the build options.
+	const keys = namedKeys ?? collectPropertyKeys(currentRecord, context.options);
+	// An array's named properties are limited like object properties.
+	const { headEnd, tailStart } = getKeptRange(
+		item,
+		keys.length,
+		context,
+		namedKeys ? false : undefined,
+	);
+	const elidedType = namedKeys ? "object" : parentNode.type;
+
+	for (const [index, { key, owner, flags }] of keys.entries()) {
+		if (isBudgetExhausted(context)) {
+			markTruncated(parentNode, context);
+			return;
+		}
+		if (index === headEnd && headEnd < tailStart) {
+			addChild(
+				parentNode,
+				createElisionNode(elidedType, tailStart - headEnd),
+				context,
+			);
+		}
+		if (index >= headEnd && index < tailStart) {
+			continue;
+		}
+		const included = filterChildPath(item, key, context);
+		if (included === undefined) {
+			continue;
+		}
+		try {
+			// Look the descriptor up on the object that defines the property,
+			// which is a prototype for inherited keys.
+			const descriptor = Object.getOwnPropertyDescriptor(owner, key);
+			if (descriptor) {
+				const descriptorInfo = getDescriptorInfo(descriptor);
+				// Redacted properties are never read, whether they are data or accessor properties.
+				if (
+					redactChild(parentNode, path, key, included, context, {
+						...flags,
+						descriptor: descriptorInfo,
+					})
+				) {
+					continue;
+				}
+				let value: unknown;
+				// Check if it's an accessor before attempting to access the value.
+				if (descriptorInfo.kind === "accessor") {
+					// Getters are only called if the accessor policy allows it; otherwise
+					// the node shows a marker and the property is not read at all.
+					// Setter-only properties keep reading as `undefined` when invoking.
+					if (!shouldInvokeGetter(key, context.options.accessors)) {
+						addLeafChild(
+							parentNode,
+							withPath(
+								{
+									name: String(key),
+									type: "accessor",
+									value: getAccessorMarker(descriptorInfo),
+									...flags,
+									descriptor: descriptorInfo,
+								},
+								[...path, key],
+								context.options.rootName,
+							),
+							included,
+							context,
+						);
+						continue;
+					}
+					// Getters are invoked on the current object so inherited accessors
+					// see the correct `this`.
+					value = descriptor.get ? currentRecord[key] : undefined;
+				}
+				// Check if it's a data descriptor with a 'value' property.
+				else if (Object.hasOwn(descriptor, "value")) {
+					value = descriptor.value;
+				} else {
+					// Handle unusual descriptors.
+					value = undefined; // Or some other indicator if needed
+				}
 
-	if (node.children && node.children.length > 0) {
-		const children = node.children;
-		const childIndent = indent + (isLast ? "   " : "│  ");
-		children.forEach((child, index) => {
-			const isLastChild = index === children.length - 1;
-			lines.push(formatNodeToString(child, childIndent, isLastChild));
-		});
+				processChild(
+					parentNode,
+					path,
+					key,
+					value,
+					currentDepth,
+					visited,
+					included,
+					context,
+					{ ...flags, descriptor: descriptorInfo },
+				);
+			}
+			// If descriptor is undefined, the key was removed between collection and access.
+			// This path handles potential inconsistencies or edge cases.
+		} catch (error) {
+			addChild(
+				parentNode,
+				createAccessErrorNode(String(key), [...path, key], error, context, flags),
+				context,
+			);
+		}
 	}
+}
+
+// --- Async Traversal ---
 
-	return lines.join("\n");
+/**
+ * Determines whether a value can be iterated with `for await`.
+ * @param value - The value.
+ * @returns `true` if the value has a `Symbol.asyncIterator` method.
+ */
+function isAsyncIterable(value: unknown): value is AsyncIterable<unknown> {
+	return typeof (value as Partial<AsyncIterable<unknown>>)[Symbol.asyncIterator] ===
+		"function";
 }
 
-// --- Public API Functions ---
+/**
+ * Waits for a Promise to settle, giving up after a timeout.
+ * @param promise - The Promise (or other thenable).
+ * @param timeoutMs - How long to wait, in milliseconds. With `0`, only
+ * already-settled Promises are resolved.
+ * @returns The outcome: `"pending"` when giving up with a timeout of `0`,
+ * `"timeout"` otherwise.
+ */
+function settlePromise(
+	promise: PromiseLike<unknown>,
+	timeoutMs: number,
+): Promise<SettledResult> {
+	return new Promise((resolve) => {
+		const timer = setTimeout(
+			() => resolve({ status: timeoutMs === 0 ? "pending" : "timeout" }),
+			timeoutMs,
+		);
+		const settle = (result: SettledResult) => {
+			clearTimeout(timer);
+			resolve(result);
+		};
+		try {
+			promise.then(
+				(value) => settle({ status: "fulfilled", value }),
+				(reason) => settle({ status: "rejected", reason }),
+			);
+		} catch (reason) {
+			// A thenable whose `then` throws is treated as rejected.
+			settle({ status: "rejected", reason });
+		}
+	});
+}
 
 /**
- * Builds a property tree representation of a given JavaScript object or value.
- * Traverses the object structure up to a specified maximum depth, handling
- * primitives, objects, arrays, functions, circular references, and property
- * access errors.
+ * Shows a Promise that didn't fulfil on its node, with the `[Rejected]` (and
+ * the error), `[Timed Out]` or `[Pending]` marker.
+ * @param node - The Promise's node.
+ * @param result - The outcome of waiting for it.
+ * @param options - The resolved build options.
+ */
+function applyUnsettledResult(
+	node: PropertyTreeNode,
+	result: Exclude<SettledResult, { status: "fulfilled" }>,
+	options: ResolvedBuildOptions,
+): void {
+	switch (result.status) {
+		case "rejected":
+			node.value = REJECTED_MARKER;
+			recordError(node, result.reason, options);
+			break;
+		case "timeout":
+			node.value = TIMED_OUT_MARKER;
+			break;
+		default:
+			node.value = PENDING_MARKER;
+	}
+}
+
+/**
+ * Reserves a child's position with a `[Pending]` placeholder, and defers
+ * building its node until the Promise holding its value settles. A fulfilled
+ * value is built with `processChild` and moved into the placeholder's position;
+ * otherwise the placeholder shows why it has no value.
  *
- * @param obj - The input object or value to build the tree from.
- * @param maxDepth - The maximum depth to traverse into nested objects/arrays.
- * Must be a non-negative integer. `0` means only the root node
- * is created, `1` includes direct children, etc.
- * @param rootName - The name to assign to the root node of the tree. Defaults to "root".
- * @returns The root `PropertyTreeNode` of the constructed tree.
+ * Takes the same parameters as `processChild`, with the Promise as the value.
+ */
+function deferPromise(
+	parentNode: PropertyTreeNode,
+	parentPath: PathSegment[],
+	segment: PathSegment,
+	promise: Promise<unknown>,
+	currentDepth: number,
+	visited: Map<object, PathSegment[]>,
+	included: boolean,
+	context: TraversalContext,
+	flags: PropertyKeyFlags & Pick<PropertyTreeNode, "descriptor">,
+): void {
+	const placeholder = withPath(
+		{ name: getSegmentName(segment), type: "promise", value: PENDING_MARKER, ...flags },
+		[...parentPath, segment],
+		context.options.rootName,
+	);
+	addChild(parentNode, placeholder, context);
+
+	context.deferred?.push(async () => {
+		// Once a budget runs out, Promises still to be awaited are truncated.
+		if (isBudgetExhausted(context)) {
+			markTruncated(placeholder, context);
+			return;
+		}
+		const result = await settlePromise(promise, context.options.promiseTimeoutMs);
+		const children = parentNode.children ?? [];
+		if (result.status !== "fulfilled") {
+			applyUnsettledResult(placeholder, result, context.options);
+			if (!keepsLeaf(placeholder, included, context)) {
+				children.splice(children.indexOf(placeholder), 1);
+				context.nodeCount--;
+			}
+			return;
+		}
+		if (isBudgetExhausted(context)) {
+			markTruncated(placeholder, context);
+			return;
+		}
+
+		// The node built from the value takes the placeholder's place in the count.
+		context.nodeCount--;
+		const childCount = children.length;
+		processChild(
+			parentNode,
+			parentPath,
+			segment,
+			result.value,
+			currentDepth,
+			visited,
+			included,
+			context,
+			flags,
+		);
+		// processChild appends the node, unless a filter left it out.
+		const node = children.length > childCount ? children.pop() : undefined;
+		if (node) {
+			node.awaited = true;
+			children.splice(children.indexOf(placeholder), 1, node);
+		} else {
+			children.splice(children.indexOf(placeholder), 1);
+		}
+	});
+}
+
+/**
+ * Lets an async iterator that wasn't read to the end release its resources,
+ * without waiting longer than `promiseTimeoutMs` for it. Errors from its
+ * `return` method don't affect the items already read, so are only passed to
+ * `onError`.
+ * @param iterator - The iterator.
+ * @param path - The path from the root to the async iterable.
+ * @param context - The shared traversal state.
+ * @returns A Promise that resolves once the iterator is closed, or given up on.
+ */
+async function closeAsyncIterator(
+	iterator: AsyncIterator<unknown>,
+	path: PathSegment[],
+	context: TraversalContext,
+): Promise<void> {
+	let result: SettledResult;
+	try {
+		result = await settlePromise(
+			Promise.resolve(iterator.return?.()),
+			context.options.promiseTimeoutMs,
+		);
+	} catch (reason) {
+		result = { status: "rejected", reason };
+	}
+	if (result.status === "rejected") {
+		context.onError?.(result.reason, path);
+	}
+}
+
+/**
+ * Defers expanding an async iterable until up to `asyncIterableLimit` items
+ * have been read from it. The items become children `[0]`, `[1]`, ..., followed
+ * by an elision node if the limit was reached. An item that fails to arrive ends
+ * the read, shown as a child with the `[Rejected]` or `[Timed Out]` marker.
+ * @param item - The work item that would otherwise expand the iterable's properties.
+ * @param iterable - The async iterable.
+ * @param context - The shared traversal state.
+ */
+function deferAsyncIterable(
+	item: WorkItem,
+	iterable: AsyncIterable<unknown>,
+	context: TraversalContext,
+): void {
+	context.deferred?.push(async () => {
+		if (isBudgetExhausted(context)) {
+			markTruncated(item.parent, context);
+			return;
+		}
+		const { asyncIterableLimit, promiseTimeoutMs, rootName } = context.options;
+		const items: unknown[] = [];
+		let isDone = false;
+		let failure: PropertyTreeNode | undefined;
+		try {
+			const iterator = iterable[Symbol.asyncIterator]();
+			while (items.length < (asyncIterableLimit ?? 0)) {
+				const result = await settlePromise(iterator.next(), promiseTimeoutMs);
+				if (result.status !== "fulfilled") {
+					failure = withPath(
+						{ name: `[${items.length}]`, type: "promise" },
+						[...item.path, items.length],
+						rootName,
+					);
+					applyUnsettledResult(failure, result, context.options);
+					break;
+				}
+				const step = result.value as IteratorResult<unknown>;
+				if (step.done) {
+					isDone = true;
+					break;
+				}
+				items.push(step.value);
+			}
+			if (!isDone && !failure) {
+				await closeAsyncIterator(iterator, item.path, context);
+			}
+		} catch (error) {
+			failure = createAccessErrorNode(
+				`[${items.length}]`,
+				[...item.path, items.length],
+				error,
+				context,
+			);
+		}
+
+		processArrayElements({ ...item, obj: items }, context);
+		const lastNode: PropertyTreeNode | undefined = failure ??
+			(isDone ? undefined : { name: "… more items not read", type: "elision" });
+		// processArrayElements marks the node itself if the budget ran out.
+		if (lastNode && item.parent.value !== TRUNCATED_MARKER) {
+			if (isBudgetExhausted(context)) {
+				markTruncated(item.parent, context);
+			} else {
+				addChild(item.parent, lastNode, context);
+			}
+		}
+	});
+}
+
+// --- Traversal ---
+
+/**
+ * Validates the options and creates the root node, along with the traversal
+ * state. The root is queued for expansion if it is to be expanded.
+ * @param obj - The input object or value.
+ * @param options - The resolved build options.
+ * @param isAsync - Whether Promises and async iterables are to be deferred
+ * (see `buildPropertyTreeAsync`).
+ * @returns The root node and the traversal state.
  * @throws {InvalidDepthError} If `maxDepth` is negative or not an integer.
+ * @throws {RangeError} If a numeric option is invalid.
+ * @throws {SyntaxError} If a `redact`, `include` or `exclude` glob is malformed.
  */
-export function buildPropertyTree(
+function startTraversal(
 	obj: unknown,
-	maxDepth: number,
-	rootName = "root",
-): PropertyTreeNode {
+	options: ResolvedBuildOptions,
+	isAsync = false,
+): { rootNode: PropertyTreeNode; context: TraversalContext } {
+	const { maxDepth } = options;
+
 	// Validate maxDepth input
 	if (maxDepth < 0 || !Number.isInteger(maxDepth)) {
 		throw new InvalidDepthError(maxDepth);
 	}
+	validateChildLimit("maxChildren", options.maxChildren);
+	validateChildLimit("maxArrayItems", options.maxArrayItems);
+	validateBudgets(options);
+	validateFunctionSourceLength(options);
+	const isRedacted = createRedactionMatcher(options.redact);
+	const filters = {
+		include: compilePathFilter(options.include),
+		exclude: compilePathFilter(options.exclude),
+	};
+	const onError = createErrorHandler(options);
 
+	// Inspect hooks and type handlers apply to the root too.
+	const inspection = getCustomInspection(
+		obj,
+		[],
+		onError,
+		shouldInvokeGetter(INSPECT_SYMBOL, options.accessors),
+	);
+	if (inspection && Object.hasOwn(inspection, "value")) {
+		obj = inspection.value;
+	}
 	const rootType = getPropertyType(obj);
 
 	// Create the root node
-	const rootNode: PropertyTreeNode = {
-		name: rootName,
-		type: rootType,
+	const rootNode = withPath(
+		{ name: options.rootName, type: rootType },
+		[],
+		options.rootName,
+	);
+	const context: TraversalContext = {
+		options,
+		queue: [],
+		expanded: new Map(),
+		nextRefId: 1,
+		nodeCount: 1,
+		startTime: performance.now(),
+		truncatedCount: 0,
+		onError,
+		isRedacted,
+		filters,
+		provisional: [],
+		deferred: isAsync ? [] : undefined,
+		measured: options.collectStats ? new Map() : undefined,
 	};
 
 	// If the root is a primitive, null, or undefined, add its value and return immediately.
-	if (
-		rootType !== "object" &&
-		rootType !== "array" &&
-		rootType !== "function"
-	) {
+	if (PRIMITIVE_TYPES.has(rootType)) {
 		rootNode.value = obj;
-		return rootNode;
+		return { rootNode, context };
+	}
+	if (rootType === "function") {
+		rootNode.functionInfo = describeFunction(
+			obj as (...args: never[]) => unknown,
+			options.functionSourceLength,
+		);
+	} else {
+		assignClassName(rootNode, obj as object);
+	}
+	applyInspection(rootNode, inspection);
+	measureNode(rootNode, obj, context);
+
+	// Dates and regular expressions are never expanded, but carry a display value.
+	if (DISPLAY_VALUE_TYPES.has(rootType)) {
+		rootNode.value = getDisplayValue(obj as Date | RegExp, rootType);
+		return { rootNode, context };
 	}
 
-	// If maxDepth is 0, or the root is null, or it's a function (which we don't expand),
+	// If maxDepth is 0, or the root is a type we don't expand (e.g. a function),
 	// return the basic root node without children or value.
-	if (maxDepth === 0 || obj === null || rootType === "function") {
-		return rootNode;
+	if (maxDepth === 0 || !shouldExpand(rootType, inspection, options)) {
+		return { rootNode, context };
 	}
 
-	// At this point, obj is a non-null object or array, and maxDepth > 0.
-	// Initialise children array and the work queue.
+	// At this point, obj is a non-null expandable object, and maxDepth > 0.
+	// Initialise children array and queue the root.
 	rootNode.children = []; // Initialize children for the root
-	const queue: WorkItem[] = [];
-	const rootVisited = new Set<object>();
+	const rootVisited = new Map<object, PathSegment[]>();
 	const rootObjAsObjectOrArray = obj as object | unknown[]; // Safe cast
 
-	rootVisited.add(rootObjAsObjectOrArray);
+	rootVisited.set(rootObjAsObjectOrArray, []);
+	if (options.references === "dedupe") {
+		context.expanded.set(rootObjAsObjectOrArray, rootNode);
+	}
 
-	queue.push({
-		obj: rootObjAsObjectOrArray,
-		name: rootName,
+	context.queue.push({
+		obj: inspection?.children ?? rootObjAsObjectOrArray,
+		name: options.rootName,
+		path: [],
 		depth: 0,
 		parent: rootNode,
+		isCustom: inspection?.children !== undefined,
+		included: filters.include === null,
 		visited: rootVisited,
 	});
 
-	// Iterative Breadth-First Traversal
+	return { rootNode, context };
+}
+
+/**
+ * Processes queued work items in breadth-first order until the queue is empty
+ * or a budget runs out.
+ * @param context - The shared traversal state.
+ */
+function runQueue(context: TraversalContext): void {
+	const { queue } = context;
 	while (queue.length > 0) {
+		// Once a budget runs out, every object still waiting to be expanded is truncated.
+		if (isBudgetExhausted(context)) {
+			for (const { parent } of queue) {
+				markTruncated(parent, context);
+			}
+			break;
+		}
+
 		// Guarded by `queue.length > 0`.
 		// deno-lint-ignore no-non-null-assertion
 		const item = queue.shift()!;
-		const {
-			obj: currentObj, // Known to be object or array here
-			depth: currentDepth,
-			parent: parentNode,
-			visited: currentVisited, // Path-specific visited set
-		} = item;
-
-		// Process Array Elements
-		if (Array.isArray(currentObj)) {
-			for (let i = 0; i < currentObj.length; i++) {
-				try {
-					const childValue = currentObj[i];
-					processChild(
-						parentNode,
-						`[${i}]`,
-						childValue,
-						currentDepth,
-						maxDepth,
-						currentVisited,
-						queue,
-					);
-				} catch (error) {
-					// This catch block is less common for simple array access but
-					// might be relevant if elements have complex access behaviour
-					// (e.g., proxies or elements being objects with throwing getters accessed indirectly).
-					console.error(`Error processing array element at index ${i}:`, error);
-					parentNode.children?.push({
-						name: `[${i}]`,
-						type: "error",
-						value: ACCESS_ERROR_MARKER,
-					});
-				}
-			}
+
+		// The parent node's type was determined when the item was queued.
+		switch (item.isCustom ? "object" : item.parent.type) {
+			case "array":
+			case "typedarray":
+				processArrayElements(item, context);
+				break;
+			case "map":
+				processMapEntries(item, context);
+				break;
+			case "set":
+				processSetMembers(item, context);
+				break;
+			default:
+				processObjectProperties(item, context);
+				break;
 		}
-		// Process Object Properties
-		else if (typeof currentObj === "object") {
-			// Type guard ensures currentObj is a non-null, non-array object.
-			const currentRecord = currentObj as Record<string | symbol, unknown>;
+	}
+}
 
-			// We only iterate over own enumerable string keys.
-			// Use Reflect.ownKeys(currentRecord) if symbols or non-enumerable keys are needed.
-			const keys = Object.keys(currentRecord);
+/**
+ * Completes a traversal: removes nodes that didn't lead to an `include` match,
+ * reports on the root whether traversal stopped early, and records sizes and
+ * statistics for `collectStats`.
+ * @param rootNode - The root node.
+ * @param context - The shared traversal state.
+ */
+function finishTraversal(rootNode: PropertyTreeNode, context: TraversalContext): void {
+	pruneProvisionalNodes(context);
 
-			for (const key of keys) {
-				try {
-					const descriptor = Object.getOwnPropertyDescriptor(
-						currentRecord,
-						key,
-					);
-					if (descriptor) {
-						let value: unknown;
-						// Check if it's a getter before attempting to access the value.
-						if (typeof descriptor.get === "function") {
-							value = currentRecord[key];
-						}
-						// Check if it's a data descriptor with a 'value' property.
-						else if (Object.hasOwn(descriptor, "value")) {
-							value = descriptor.value;
-						} else {
-							// Handle cases with only a setter, or unusual descriptors.
-							value = undefined; // Or some other indicator if needed
-						}
-
-						processChild(
-							parentNode,
-							key,
-							value,
-							currentDepth,
-							maxDepth,
-							currentVisited,
-							queue,
-						);
-					}
-					// If descriptor is undefined, Object.keys shouldn't have returned this key.
-					// This path handles potential inconsistencies or edge cases.
-				} catch (error) {
-					console.error(`Error accessing property "${key}":`, error);
-					parentNode.children?.push({
-						name: key,
-						type: "error",
-						value: ACCESS_ERROR_MARKER,
-					});
-				}
-			}
+	if (context.exhausted !== undefined) {
+		rootNode.truncation = {
+			reason: context.exhausted,
+			nodeCount: context.nodeCount,
+			elapsedMs: performance.now() - context.startTime,
+			truncatedCount: context.truncatedCount,
+		};
+	}
+
+	// Ordered before normalizing, so reference ids are numbered in output order.
+	orderTree(rootNode, context.options.order);
+	if (context.options.deterministic) {
+		normalizeTree(rootNode);
+	}
+
+	if (context.measured) {
+		for (const [node, size] of getSubtreeSizes(rootNode, context.measured)) {
+			node.size = size;
+		}
+		rootNode.stats = summarizePropertyTree(rootNode);
+	}
+}
+
+// --- Public API Functions ---
+
+/**
+ * Builds a property tree representation of a given JavaScript object or value.
+ * Traverses the object structure up to a specified maximum depth, handling
+ * primitives, objects, arrays, functions, circular references, and property
+ * access errors.
+ *
+ * Can be called either with a positional `maxDepth` and `rootName`, or with a
+ * `BuildOptions` object:
+ *
+ * ```ts
+ * buildPropertyTree(obj, 3, "myObject");
+ * buildPropertyTree(obj, { maxDepth: 3, includeSymbols: true });
+ * ```
+ *
+ * @param obj - The input object or value to build the tree from.
+ * @param maxDepthOrOptions - The maximum depth to traverse into nested objects/arrays,
+ * or a `BuildOptions` object. The depth must be a non-negative integer. `0` means
+ * only the root node is created, `1` includes direct children, etc.
+ * When passing options, `maxDepth` defaults to 3.
+ * @param rootName - The name to assign to the root node of the tree when using the
+ * positional form. Defaults to "root".
+ * @returns The root `PropertyTreeNode` of the constructed tree.
+ * @throws {InvalidDepthError} If `maxDepth` is negative or not an integer.
+ * @throws {RangeError} If `maxChildren`, `maxArrayItems`, `maxNodes` or
+ * `maxTimeMs` is invalid.
+ * @throws {SyntaxError} If a `redact`, `include` or `exclude` glob is malformed.
+ */
+export function buildPropertyTree(
+	obj: unknown,
+	options?: BuildOptions,
+): PropertyTreeNode;
+export function buildPropertyTree(
+	obj: unknown,
+	maxDepth: number,
+	rootName?: string,
+): PropertyTreeNode;
+export function buildPropertyTree(
+	obj: unknown,
+	maxDepthOrOptions?: number | BuildOptions,
+	rootName?: string,
+): PropertyTreeNode {
+	const options = resolveBuildOptions(maxDepthOrOptions, rootName);
+	const { rootNode, context } = startTraversal(obj, options);
+	runQueue(context);
+	finishTraversal(rootNode, context);
+	return rootNode;
+}
+
+/**
+ * Builds a property tree like `buildPropertyTree`, but awaits the Promises it
+ * finds (including those returned by getters), showing each as the value it
+ * fulfils with, annotated `[awaited]`. Promises that reject show the
+ * `[Rejected]` marker with the error, and those that don't settle within
+ * `promiseTimeoutMs` show `[Timed Out]` (or `[Pending]`, with a timeout of 0).
+ * A root Promise is awaited too. With `asyncIterableLimit`, async iterables are
+ * read into children `[0]`, `[1]`, ... up to the limit.
+ *
+ * Promises found at the same depth are awaited concurrently, so the whole build
+ * takes roughly `promiseTimeoutMs` per level of nested Promises at most.
+ *
+ * ```ts
+ * const tree = await buildPropertyTreeAsync({ user: fetchUser() }, { promiseTimeoutMs: 500 });
+ * ```
+ *
+ * @param obj - The input object or value to build the tree from.
+ * @param maxDepthOrOptions - The maximum depth, or a `BuildOptions` object. See
+ * `buildPropertyTree`.
+ * @param rootName - The name of the root node when using the positional form.
+ * @returns A Promise for the root `PropertyTreeNode` of the constructed tree.
+ * @throws {InvalidDepthError} If `maxDepth` is negative or not an integer.
+ * @throws {RangeError} If a numeric option such as `promiseTimeoutMs` is invalid.
+ * @throws {SyntaxError} If a `redact`, `include` or `exclude` glob is malformed.
+ */
+export function buildPropertyTreeAsync(
+	obj: unknown,
+	options?: BuildOptions,
+): Promise<PropertyTreeNode>;
+export function buildPropertyTreeAsync(
+	obj: unknown,
+	maxDepth: number,
+	rootName?: string,
+): Promise<PropertyTreeNode>;
+export async function buildPropertyTreeAsync(
+	obj: unknown,
+	maxDepthOrOptions?: number | BuildOptions,
+	rootName?: string,
+): Promise<PropertyTreeNode> {
+	const options = resolveBuildOptions(maxDepthOrOptions, rootName);
+	validateAsyncOptions(options);
+	let { rootNode, context } = startTraversal(obj, options, true);
+
+	// Await a root Promise before building the tree from its value.
+	if (rootNode.type === "promise") {
+		const result = await settlePromise(obj as PromiseLike<unknown>, options.promiseTimeoutMs);
+		if (result.status !== "fulfilled") {
+			applyUnsettledResult(rootNode, result, options);
+			return rootNode;
 		}
+		({ rootNode, context } = startTraversal(result.value, options, true));
+		rootNode.awaited = true;
 	}
 
+	// Alternate between expanding everything reachable synchronously and
+	// awaiting the Promises found, until nothing is left to await. Once a budget
+	// runs out, the remaining tasks only mark their nodes as truncated.
+	runQueue(context);
+	while (context.deferred?.length) {
+		await Promise.all(context.deferred.splice(0).map((task) => task()));
+		runQueue(context);
+	}
+	finishTraversal(rootNode, context);
 	return rootNode;
 }
 
@@ -445,11 +2083,20 @@ export function buildPropertyTree(
  * for a hierarchical view.
  *
  * @param rootNode - The root `PropertyTreeNode` of the tree to format.
+ * @param options - Options controlling the output. See `FormatOptions`.
  * @returns A string representation of the tree.
  */
-export function formatPropertyTreeToString(rootNode: PropertyTreeNode): string {
-	// Start the recursive formatting from the root node.
-	return formatNodeToString(rootNode, "", true);
+export function formatPropertyTreeToString(
+	rootNode: PropertyTreeNode,
+	options?: FormatOptions,
+): string {
+	// Start formatting from the root node.
+	return formatNodeToString(
+		rootNode,
+		resolveFormatOptions(options),
+		"",
+		true,
+	);
 }
 
 /**
@@ -457,17 +2104,75 @@ export function formatPropertyTreeToString(rootNode: PropertyTreeNode): string {
  * string representation to the console. This is a convenience function
  * combining `buildPropertyTree` and `formatPropertyTreeToString`.
  *
+ * Accepts the same positional `maxDepth`/`rootName` arguments as `buildPropertyTree`,
+ * or a `LogOptions` object combining `BuildOptions` and `FormatOptions`.
+ *
+ * Unless `colors` is set explicitly, the output is colorized when standard output
+ * is a terminal and the `NO_COLOR` environment variable is not set.
+ *
  * @param obj - The input object or value to log.
- * @param maxDepth - The maximum depth to traverse. See `buildPropertyTree`.
- * Default value of 3 for convenience.
+ * @param maxDepthOrOptions - The maximum depth to traverse, or a `LogOptions` object.
+ * See `buildPropertyTree`. Default value of 3 for convenience.
  * @param rootName - The name for the root node. See `buildPropertyTree`.
  * @throws {InvalidDepthError} If `maxDepth` is invalid.
  */
+export function logPropertyTree(obj: unknown, options?: LogOptions): void;
 export function logPropertyTree(
 	obj: unknown,
-	maxDepth = 3,
+	maxDepth?: number,
+	rootName?: string,
+): void;
+export function logPropertyTree(
+	obj: unknown,
+	maxDepthOrOptions: number | LogOptions = 3,
 	rootName = "root",
 ): void {
-	const tree = buildPropertyTree(obj, maxDepth, rootName);
-	console.log(formatPropertyTreeToString(tree));
+	if (typeof maxDepthOrOptions === "number") {
+		const tree = buildPropertyTree(obj, maxDepthOrOptions, rootName);
+		console.log(formatPropertyTreeToString(tree, { colors: shouldUseColor() }));
+		return;
+	}
+	const tree = buildPropertyTree(obj, maxDepthOrOptions);
+	console.log(formatPropertyTreeToString(tree, {
+		...maxDepthOrOptions,
+		colors: maxDepthOrOptions.colors ?? shouldUseColor(),
+	}));
+}
+
+/**
+ * Builds a property tree with `buildPropertyTreeAsync`, awaiting the Promises
+ * it finds, and logs its formatted string representation to the console. Takes
+ * the same arguments as `logPropertyTree`.
+ *
+ * ```ts
+ * await logPropertyTreeAsync({ user: fetchUser() }, { promiseTimeoutMs: 500 });
+ * ```
+ *
+ * @param obj - The input object or value to log.
+ * @param maxDepthOrOptions - The maximum depth to traverse, or a `LogOptions` object.
+ * @param rootName - The name for the root node.
+ * @returns A Promise that resolves once the tree has been logged.
+ * @throws {InvalidDepthError} If `maxDepth` is invalid.
+ */
+export function logPropertyTreeAsync(obj: unknown, options?: LogOptions): Promise<void>;
+export function logPropertyTreeAsync(
+	obj: unknown,
+	maxDepth?: number,
+	rootName?: string,
+): Promise<void>;
+export async function logPropertyTreeAsync(
+	obj: unknown,
+	maxDepthOrOptions: number | LogOptions = 3,
+	rootName = "root",
+): Promise<void> {
+	if (typeof maxDepthOrOptions === "number") {
+		const tree = await buildPropertyTreeAsync(obj, maxDepthOrOptions, rootName);
+		console.log(formatPropertyTreeToString(tree, { colors: shouldUseColor() }));
+		return;
+	}
+	const tree = await buildPropertyTreeAsync(obj, maxDepthOrOptions);
+	console.log(formatPropertyTreeToString(tree, {
+		...maxDepthOrOptions,
+		colors: maxDepthOrOptions.colors ?? shouldUseColor(),
+	}));
 }
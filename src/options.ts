@@ -0,0 +1,488 @@
+import type { ColorTheme } from "./colors.ts";
+import type { PathSegment, PropertyTreeNode, PropertyType } from "./types.ts";
+
+// --- Options ---
+
+/**
+ * Controls whether `buildPropertyTree` invokes getters:
+ * - `"invoke"`: call every getter and show the value it returns.
+ * - `"skip"`: never call getters; accessor properties are shown with a
+ *   `[Getter]`, `[Setter]` or `[Getter/Setter]` marker instead.
+ * - `{ allow }`: only call getters whose key matches one of the given names or
+ *   regular expressions (symbol keys are matched by their `String()` form), and
+ *   skip the rest.
+ */
+export type AccessorPolicy =
+	| "invoke"
+	| "skip"
+	| { allow: ReadonlyArray<string | RegExp> };
+
+/**
+ * Limits how many children a node keeps (see `BuildOptions.maxChildren`):
+ * - a number `n`: keep the first `n` children.
+ * - `{ head, tail }`: keep the first `head` and the last `tail` children.
+ */
+export type ChildLimit = number | { head: number; tail: number };
+
+/**
+ * A predicate deciding whether a node matches `BuildOptions.include` or
+ * `BuildOptions.exclude`.
+ * @param path - The path from the root to the node.
+ * @param value - The node's value.
+ * @param type - The node's type.
+ * @returns `true` if the node matches.
+ */
+export type PathPredicate = (
+	path: readonly PathSegment[],
+	value: unknown,
+	type: PropertyType,
+) => boolean;
+
+/**
+ * Selects nodes for `BuildOptions.include` and `BuildOptions.exclude`: either
+ * path globs such as `user.**` or `data[*].id`, where `*` matches any single
+ * segment and `**` any number of segments, or a `PathPredicate`.
+ */
+export type PathFilter = ReadonlyArray<string> | PathPredicate;
+
+/**
+ * Receives the errors caught while building a tree (see `BuildOptions.onError`).
+ * @param error - The thrown value.
+ * @param path - The path from the root to the value being read or inspected.
+ */
+export type ErrorHandler = (error: unknown, path: readonly PathSegment[]) => void;
+
+/**
+ * Compares two sibling nodes for a custom `order`, like a comparator passed to
+ * `Array.prototype.sort`: returns a negative number if `a` comes first, a
+ * positive number if `b` does, or `0` to keep their current order.
+ */
+export type KeyComparator = (a: PropertyTreeNode, b: PropertyTreeNode) => number;
+
+/**
+ * The order of object properties among their siblings:
+ * - `"insertion"`: the order of `Object.keys`, i.e. integer-like keys in
+ *   ascending order, then other keys in the order they were added;
+ * - `"alphabetical"`: by name, symbol keys last;
+ * - `"natural"`: by name with runs of digits compared as numbers, so `item2`
+ *   comes before `item10`, symbol keys last;
+ * - `"type"`: primitives (and dates, regular expressions and placeholders such
+ *   as `[Getter]`) first, then objects (including Maps, Sets and other built-in
+ *   objects), arrays and typed arrays, and finally functions, in their
+ *   original order within each group;
+ * - a `KeyComparator`, for a custom order.
+ *
+ * Array, typed array and Set elements, Map entries and elision nodes always
+ * keep their position, so indices stay in numeric order.
+ */
+export type KeyOrder = "insertion" | "alphabetical" | "natural" | "type" | KeyComparator;
+
+/**
+ * Options controlling how `buildPropertyTree` traverses an object.
+ */
+export interface BuildOptions {
+	/**
+	 * The maximum depth to traverse into nested objects/arrays.
+	 * Must be a non-negative integer. Defaults to 3.
+	 */
+	maxDepth?: number;
+
+	/** The name to assign to the root node of the tree. Defaults to "root". */
+	rootName?: string;
+
+	/** Include symbol-keyed properties. Defaults to `false`. */
+	includeSymbols?: boolean;
+
+	/**
+	 * Include non-enumerable properties (e.g. `Error.prototype.message` on an error instance).
+	 * Defaults to `false`.
+	 */
+	includeNonEnumerable?: boolean;
+
+	/**
+	 * Include properties inherited from the prototype chain, such as accessors and
+	 * methods defined by a class. The walk stops before `Object.prototype`.
+	 * Defaults to `false`.
+	 */
+	includeInherited?: boolean;
+
+	/**
+	 * Whether getters are invoked to read property values. Use `"skip"` (or an
+	 * allowlist) to avoid side effects, lazy loading or expensive computation.
+	 * See `AccessorPolicy`. Defaults to `"invoke"`.
+	 */
+	accessors?: AccessorPolicy;
+
+	/**
+	 * How objects reachable through more than one path are handled:
+	 * - `"expand"`: only cycles along the current path are detected; an object shared
+	 *   by sibling branches is expanded in full each time it appears.
+	 * - `"dedupe"`: each object is expanded once, where it's first reached (the
+	 *   shallowest occurrence). Later occurrences and cycles refer back to it by
+	 *   a reference id and path, e.g. `[Ref *1 → root.user]`.
+	 *
+	 * Defaults to `"expand"`.
+	 */
+	references?: "expand" | "dedupe";
+
+	/**
+	 * The maximum number of children kept for each object, array, Map or Set.
+	 * The children left out are replaced by a single node of type `"elision"`,
+	 * e.g. `… 49,990 more items`, recording how many were skipped in
+	 * `elidedCount`. Skipped children are never read. See `ChildLimit`.
+	 * Defaults to `null` (no limit).
+	 */
+	maxChildren?: ChildLimit | null;
+
+	/**
+	 * The maximum number of elements kept for arrays and typed arrays, overriding
+	 * `maxChildren` for them. Defaults to `null` (use `maxChildren`).
+	 */
+	maxArrayItems?: ChildLimit | null;
+
+	/**
+	 * The maximum number of nodes in the tree, including the root and the nodes
+	 * standing in for left-out children and array holes. Once reached,
+	 * traversal stops: objects whose children were not (fully) processed get the
+	 * `[Truncated]` marker as their value, and the root's `truncation` reports
+	 * what happened. Defaults to `null` (no limit).
+	 */
+	maxNodes?: number | null;
+
+	/**
+	 * The maximum time to spend building the tree, in milliseconds. Once
+	 * exceeded, traversal stops as for `maxNodes`. Defaults to `null` (no limit).
+	 */
+	maxTimeMs?: number | null;
+
+	/**
+	 * Hides the values of matching properties, array elements, Map entries and
+	 * Set members behind a node of type `"redacted"` with the `[Redacted]`
+	 * marker. Their values are never read, so getters aren't invoked either.
+	 * Each pattern is one of:
+	 * - a key name, e.g. `"password"`, matched exactly against the last path
+	 *   segment (symbol keys by their `String()` form, Map keys with `String`);
+	 * - a regular expression, tested against the last path segment;
+	 * - a path glob from the root, e.g. `"*.headers.authorization"` or
+	 *   `"users[*].password"`, where `*` matches any single segment and `**` any
+	 *   number of segments. Strings containing `.`, `*` or `[` are treated as globs.
+	 *
+	 * Use `DEFAULT_REDACT_PATTERNS` for common secrets. Defaults to `[]`.
+	 */
+	redact?: ReadonlyArray<string | RegExp>;
+
+	/**
+	 * Only keep the nodes matching this filter, along with their descendants and
+	 * the ancestors needed to reach them. Globs are matched against a node's path
+	 * before its value is read, so branches that can't lead to a match are never
+	 * traversed. A predicate needs the value, so every branch within `maxDepth` is
+	 * traversed, and objects that don't match are kept only if one of their
+	 * descendants does. See `PathFilter`. Defaults to `null` (keep everything).
+	 */
+	include?: PathFilter | null;
+
+	/**
+	 * Leave out the nodes matching this filter, along with their descendants.
+	 * Excluded branches are never traversed, and with globs their values are never
+	 * read. See `PathFilter`. Defaults to `null` (exclude nothing).
+	 */
+	exclude?: PathFilter | null;
+
+	/**
+	 * How long `buildPropertyTreeAsync` waits for each Promise to settle, in
+	 * milliseconds. Fulfilled Promises are shown as their value, annotated
+	 * `[awaited]`; rejected ones with the `[Rejected]` marker, and ones that don't
+	 * settle in time with `[Timed Out]`. With `0`, only Promises that have already
+	 * settled are resolved, and the rest show `[Pending]`. Ignored by
+	 * `buildPropertyTree`. Defaults to 1000.
+	 */
+	promiseTimeoutMs?: number;
+
+	/**
+	 * The maximum number of items `buildPropertyTreeAsync` reads from async
+	 * iterables (such as async generators and streams), shown as children
+	 * `[0]`, `[1]`, ..., or `null` to expand them as ordinary objects. Each item
+	 * is awaited with `promiseTimeoutMs`. Ignored by `buildPropertyTree`.
+	 * Defaults to `null`.
+	 */
+	asyncIterableLimit?: number | null;
+
+	/**
+	 * Measure the approximate size of each node's subtree while traversing,
+	 * recorded in the node's `size`, and summarize the tree in the root's
+	 * `stats` (see `summarizePropertyTree`). Sizes are measured from the values
+	 * themselves, so they include the full length of arrays, Maps and Sets and
+	 * the byte length of binary data, even where not every element is shown.
+	 * Defaults to `false`.
+	 */
+	collectStats?: boolean;
+
+	/**
+	 * Called with each error caught while building the tree: errors thrown by
+	 * getters, proxy traps and iterators, which are also shown on the value's
+	 * node as `[Access Error: TypeError: not allowed]` (see
+	 * `PropertyTreeNode.error`), and errors thrown by inspect hooks and type
+	 * handlers, whose values are then shown as usual. Defaults to `null`.
+	 */
+	onError?: ErrorHandler | null;
+
+	/**
+	 * Keep errors caught while building the tree off the console. With `false`,
+	 * each error is also logged with `console.error`, along with the path where
+	 * it happened. Defaults to `true`.
+	 */
+	silent?: boolean;
+
+	/**
+	 * Record the stack trace of each error shown in the tree, in the node's
+	 * `errorStack`. Defaults to `false`.
+	 */
+	errorStacks?: boolean;
+
+	/**
+	 * Expand functions (including classes) into their own properties, such as
+	 * static class fields, like objects. Their built-in `length`, `name` and
+	 * `prototype` properties are non-enumerable, so are only shown with
+	 * `includeNonEnumerable`. Defaults to `false`.
+	 */
+	expandFunctions?: boolean;
+
+	/**
+	 * The number of characters of each function's source to record in
+	 * `functionInfo.source`, on one line, or `null` to record none. Defaults
+	 * to `null`.
+	 */
+	functionSourceLength?: number | null;
+
+	/**
+	 * Make the tree the same in every run, for snapshots: sort each object's
+	 * keys (string keys in code unit order, then symbol keys by description),
+	 * renumber reference ids in order of appearance, and replace unique symbols
+	 * with numbered stand-ins (see `normalizePropertyTree`). Array elements, and
+	 * Map and Set entries, keep their order. Defaults to `false`.
+	 */
+	deterministic?: boolean;
+
+	/**
+	 * The order of object properties in the tree (see `KeyOrder`). Applied once
+	 * the tree is built, so limits such as `maxChildren` and `maxNodes` still
+	 * keep the first properties in insertion order. Defaults to `"insertion"`.
+	 */
+	order?: KeyOrder;
+}
+
+/**
+ * Options controlling how `formatPropertyTreeToString` renders a tree.
+ */
+export interface FormatOptions {
+	/**
+	 * Show class names after the type, e.g. `user (object User)`, and flag
+	 * `null`-prototype objects. Defaults to `true`.
+	 */
+	showClassNames?: boolean;
+
+	/**
+	 * Colorize the output with ANSI escape codes, styling names, type labels,
+	 * values and markers according to `theme`. Defaults to `false`, except in
+	 * `logPropertyTree`, which enables color when standard output is a terminal
+	 * and the `NO_COLOR` environment variable is not set.
+	 */
+	colors?: boolean;
+
+	/**
+	 * The color theme used when `colors` is enabled: `"default"` (for dark
+	 * backgrounds), `"light"` (for light backgrounds), or a custom `ColorTheme`.
+	 * Defaults to `"default"`.
+	 */
+	theme?: "default" | "light" | ColorTheme;
+
+	/**
+	 * Show each node's type in parentheses after its name, e.g. `name (string)`.
+	 * When `false`, class names are hidden as well. Defaults to `true`.
+	 */
+	showTypes?: boolean;
+
+	/**
+	 * The number of characters after which string values are truncated and
+	 * followed by `...`, or `null` to never truncate them. Defaults to 50.
+	 */
+	maxStringLength?: number | null;
+
+	/**
+	 * Which characters are escaped in string values:
+	 * - `"newlines"`: only line feeds, shown as `\n`.
+	 * - `"control"`: backslashes, double quotes and every control character
+	 *   (e.g. `\t`, `\x1b`), as well as lone surrogates and line/paragraph
+	 *   separators, so each value appears on one line and is unambiguous.
+	 * - `"unicode"`: as `"control"`, and every non-ASCII character as a
+	 *   `\uXXXX` or `\u{XXXXX}` escape.
+	 *
+	 * Defaults to `"newlines"`.
+	 */
+	escape?: "newlines" | "control" | "unicode";
+
+	/**
+	 * The characters used to draw the tree: `"unicode"` box-drawing characters
+	 * (`├─`, `└─`, `│`), or `"ascii"` (`+-`, `` `- ``, `|`) for terminals and log
+	 * viewers that can't display them. Defaults to `"unicode"`.
+	 */
+	connectors?: "unicode" | "ascii";
+
+	/**
+	 * The width of each level of indentation, including the connector, e.g. 4
+	 * for `├── `. Must be an integer of at least 2. Defaults to 3.
+	 */
+	indentWidth?: number;
+
+	/**
+	 * The maximum width of a line, in characters, or `null` for no limit. Values
+	 * that don't fit are handled according to `lineOverflow`. Defaults to `null`.
+	 */
+	maxLineWidth?: number | null;
+
+	/**
+	 * How values that exceed `maxLineWidth` are shown: `"elide"` cuts them short
+	 * and appends `...`, while `"wrap"` continues them on the following lines,
+	 * indented below the node. Defaults to `"elide"`.
+	 */
+	lineOverflow?: "elide" | "wrap";
+
+	/**
+	 * Show the kind, name and arity of functions after their type, e.g.
+	 * `handle (function async handle/2)`, and their source preview (if recorded
+	 * with `functionSourceLength`) as their value. Regular functions show no
+	 * kind. Defaults to `true`.
+	 */
+	showFunctionInfo?: boolean;
+
+	/**
+	 * Annotate each expanded object, array, Map, Set and typed array with the
+	 * approximate size of its subtree, e.g. `cache (object) [~1.2 MB]`. Uses the
+	 * sizes recorded with `collectStats`, or estimates them from the tree (see
+	 * `summarizePropertyTree`). Defaults to `false`.
+	 */
+	showSizes?: boolean;
+
+	/**
+	 * The order in which object properties are shown (see `KeyOrder`), whatever
+	 * their order in the tree. Defaults to `"insertion"`, which keeps the
+	 * tree's order.
+	 */
+	order?: KeyOrder;
+}
+
+/**
+ * Options accepted by `logPropertyTree`, combining the options used to build
+ * and to format the tree.
+ */
+export interface LogOptions extends BuildOptions, FormatOptions {}
+
+/** `BuildOptions` with every default applied. */
+export type ResolvedBuildOptions = Required<BuildOptions>;
+
+/** Default values for `BuildOptions`. */
+export const DEFAULT_BUILD_OPTIONS: ResolvedBuildOptions = {
+	maxDepth: 3,
+	rootName: "root",
+	includeSymbols: false,
+	includeNonEnumerable: false,
+	includeInherited: false,
+	accessors: "invoke",
+	references: "expand",
+	maxChildren: null,
+	maxArrayItems: null,
+	maxNodes: null,
+	maxTimeMs: null,
+	redact: [],
+	include: null,
+	exclude: null,
+	promiseTimeoutMs: 1000,
+	asyncIterableLimit: null,
+	collectStats: false,
+	onError: null,
+	silent: true,
+	errorStacks: false,
+	expandFunctions: false,
+	functionSourceLength: null,
+	deterministic: false,
+	order: "insertion",
+};
+
+/** `FormatOptions` with every default applied. */
+export type ResolvedFormatOptions = Required<FormatOptions>;
+
+/** Default values for `FormatOptions`. */
+export const DEFAULT_FORMAT_OPTIONS: ResolvedFormatOptions = {
+	showClassNames: true,
+	colors: false,
+	theme: "default",
+	showTypes: true,
+	maxStringLength: 50,
+	escape: "newlines",
+	connectors: "unicode",
+	indentWidth: 3,
+	maxLineWidth: null,
+	lineOverflow: "elide",
+	showFunctionInfo: true,
+	showSizes: false,
+	order: "insertion",
+};
+
+// --- Option Helpers ---
+
+/**
+ * Merges a partial options object over a set of defaults. Only keys present in
+ * the defaults are copied, so a combined `LogOptions` object can be passed
+ * to each stage, and explicitly `undefined` entries don't override the defaults.
+ * @param defaults - The complete default options.
+ * @param options - The caller's options, if any.
+ * @returns A new, complete options object.
+ */
+export function applyDefaults<T extends object>(
+	defaults: T,
+	options: Partial<T> | undefined,
+): T {
+	const resolved = { ...defaults };
+	if (options) {
+		for (const key of Object.keys(defaults) as (keyof T)[]) {
+			if (options[key] !== undefined) {
+				resolved[key] = options[key] as T[keyof T];
+			}
+		}
+	}
+	return resolved;
+}
+
+/**
+ * Applies the defaults to the caller's `FormatOptions` and validates the
+ * numeric options.
+ * @param options - The caller's options, if any.
+ * @returns The resolved options.
+ * @throws {RangeError} If `indentWidth`, `maxStringLength` or `maxLineWidth`
+ * is out of range.
+ */
+export function resolveFormatOptions(
+	options: FormatOptions | undefined,
+): ResolvedFormatOptions {
+	const resolved = applyDefaults(DEFAULT_FORMAT_OPTIONS, options);
+	const { indentWidth, maxStringLength, maxLineWidth } = resolved;
+	if (!Number.isInteger(indentWidth) || indentWidth < 2) {
+		throw new RangeError(
+			`Invalid indentWidth: ${indentWidth}. Must be an integer of at least 2.`,
+		);
+	}
+	if (
+		maxStringLength !== null &&
+		(!Number.isInteger(maxStringLength) || maxStringLength < 0)
+	) {
+		throw new RangeError(
+			`Invalid maxStringLength: ${maxStringLength}. Must be a non-negative integer or null.`,
+		);
+	}
+	if (maxLineWidth !== null && (!Number.isInteger(maxLineWidth) || maxLineWidth < 1)) {
+		throw new RangeError(
+			`Invalid maxLineWidth: ${maxLineWidth}. Must be a positive integer or null.`,
+		);
+	}
+	return resolved;
+}
@@ -0,0 +1,137 @@
+import type { KeyComparator, KeyOrder } from "./options.ts";
+import type { PropertyTreeNode, PropertyType } from "./types.ts";
+
+// --- Constants ---
+
+/**
+ * The rank of each type for the `"type"` order: primitives (and leaf
+ * placeholders such as accessors) first, then objects, arrays and functions.
+ */
+const TYPE_RANKS: Readonly<Record<PropertyType, number>> = {
+	string: 0,
+	number: 0,
+	boolean: 0,
+	symbol: 0,
+	bigint: 0,
+	undefined: 0,
+	null: 0,
+	date: 0,
+	regexp: 0,
+	accessor: 0,
+	error: 0,
+	redacted: 0,
+	object: 1,
+	map: 1,
+	set: 1,
+	weakmap: 1,
+	weakset: 1,
+	weakref: 1,
+	promise: 1,
+	arraybuffer: 1,
+	dataview: 1,
+	array: 2,
+	typedarray: 2,
+	function: 3,
+	elision: 4,
+};
+
+/** Compares names alphabetically, with upper and lower case versions of a letter together. */
+const ALPHABETICAL_COLLATOR = new Intl.Collator("en");
+
+/** Compares names alphabetically, with runs of digits compared as numbers. */
+const NATURAL_COLLATOR = new Intl.Collator("en", { numeric: true });
+
+// --- Comparators ---
+
+/**
+ * Creates a comparator that orders nodes by name with a collator, string keys
+ * before symbol keys.
+ * @param collator - The collator used to compare names.
+ * @returns The comparator.
+ */
+function compareNamesWith(collator: Intl.Collator): KeyComparator {
+	return (a, b) =>
+		Number(a.isSymbolKey ?? false) - Number(b.isSymbolKey ?? false) ||
+		collator.compare(a.name, b.name);
+}
+
+/** The comparators for the built-in orders, other than `"insertion"`. */
+const COMPARATORS: Readonly<Record<"alphabetical" | "natural" | "type", KeyComparator>> = {
+	alphabetical: compareNamesWith(ALPHABETICAL_COLLATOR),
+	natural: compareNamesWith(NATURAL_COLLATOR),
+	type: (a, b) => TYPE_RANKS[a.type] - TYPE_RANKS[b.type],
+};
+
+// --- Ordering ---
+
+/**
+ * Determines whether a child keeps its position whatever the order: array,
+ * typed array and Set elements, Map entries and elision nodes do, while object
+ * properties are reordered. Nodes without a `path` (such as hand-built ones)
+ * are judged by their parent's type.
+ * @param child - The child node.
+ * @param parent - The parent node.
+ * @returns `true` if the child keeps its position.
+ */
+function isPositional(child: PropertyTreeNode, parent: PropertyTreeNode): boolean {
+	if (child.type === "elision") return true;
+	if (child.path && child.path.length > 0) {
+		const segment = child.path[child.path.length - 1];
+		return typeof segment === "number" || typeof segment === "object";
+	}
+	return parent.type === "array" || parent.type === "typedarray" ||
+		parent.type === "map" || parent.type === "set";
+}
+
+/**
+ * Orders a node's children. Object properties are sorted among themselves,
+ * in the slots they occupy, while positional children (see `isPositional`)
+ * keep theirs, so array elements stay in index order. The sort is stable.
+ * @param parent - The node whose children to order.
+ * @param order - The order to apply.
+ * @returns The ordered children: the node's own array for `"insertion"` or
+ * fewer than two children, and a new array otherwise.
+ */
+export function orderChildren(
+	parent: PropertyTreeNode,
+	order: KeyOrder,
+): PropertyTreeNode[] {
+	const children = parent.children ?? [];
+	if (order === "insertion" || children.length < 2) {
+		return children;
+	}
+	const compare = typeof order === "function" ? order : COMPARATORS[order];
+	const slots: number[] = [];
+	const properties: PropertyTreeNode[] = [];
+	for (const [index, child] of children.entries()) {
+		if (!isPositional(child, parent)) {
+			slots.push(index);
+			properties.push(child);
+		}
+	}
+	properties.sort(compare);
+	const ordered = [...children];
+	for (const [i, slot] of slots.entries()) {
+		ordered[slot] = properties[i];
+	}
+	return ordered;
+}
+
+/**
+ * Orders the children of every node in a tree, in place.
+ * @param tree - The root node of the tree.
+ * @param order - The order to apply.
+ */
+export function orderTree(tree: PropertyTreeNode, order: KeyOrder): void {
+	if (order === "insertion") return;
+	const stack = [tree];
+	while (stack.length > 0) {
+		const node = stack.pop() as PropertyTreeNode;
+		if (node.children) {
+			node.children = orderChildren(node, order);
+			for (const child of node.children) {
+				stack.push(child);
+			}
+		}
+	}
+}
@@ -0,0 +1,264 @@
+import { getPropertyType } from "./property-types.ts";
+import type { PathSegment } from "./types.ts";
+
+// --- Path Helpers ---
+
+/**
+ * Describes a Map key for use in a child node's name: strings are quoted,
+ * other primitives are converted with `String` (bigints get an `n` suffix),
+ * and object keys are shown by type, e.g. `<object>`.
+ * @param key - The Map key.
+ * @returns A short description of the key.
+ */
+export function describeMapKey(key: unknown): string {
+	const type = getPropertyType(key);
+	switch (type) {
+		case "string":
+			return JSON.stringify(key);
+		case "bigint":
+			return `${key}n`;
+		case "number":
+		case "boolean":
+		case "symbol":
+		case "undefined":
+		case "null":
+			return String(key);
+		default:
+			return `<${type}>`;
+	}
+}
+
+/**
+ * Returns the name of the node for a path segment: property keys are used as-is,
+ * indices are wrapped in brackets, e.g. `[0]`, and Map keys are described with
+ * `describeMapKey`, e.g. `"theme" =>`.
+ * @param segment - The path segment.
+ * @returns The node name.
+ */
+export function getSegmentName(segment: PathSegment): string {
+	switch (typeof segment) {
+		case "number":
+			return `[${segment}]`;
+		case "string":
+		case "symbol":
+			return String(segment);
+		default:
+			return `${describeMapKey(segment.mapKey)} =>`;
+	}
+}
+
+/**
+ * Renders a path as a JavaScript property access expression, starting from the
+ * root name, e.g. `root.user.roles[1]`, `root["odd key"]` or `root.cache.get("a")`.
+ * @param rootName - The name of the root node.
+ * @param path - The path segments.
+ * @returns The rendered path.
+ */
+export function formatJsPath(rootName: string, path: readonly PathSegment[]): string {
+	let rendered = rootName;
+	for (const segment of path) {
+		switch (typeof segment) {
+			case "number":
+				rendered += `[${segment}]`;
+				break;
+			case "string":
+				rendered += /^[A-Za-z_$][\w$]*$/.test(segment)
+					? `.${segment}`
+					: `[${JSON.stringify(segment)}]`;
+				break;
+			case "symbol":
+				rendered += `[${String(segment)}]`;
+				break;
+			default:
+				rendered += `.get(${describeMapKey(segment.mapKey)})`;
+				break;
+		}
+	}
+	return rendered;
+}
+
+/**
+ * Renders a path as a JSON Pointer (RFC 6901), e.g. `/user/roles/1`. Symbol keys
+ * use their `String()` form and Map keys are converted with `String`, so pointers
+ * are not guaranteed to be unique for exotic keys.
+ * @param path - The path segments.
+ * @returns The rendered pointer, or an empty string for the root.
+ */
+export function formatJsonPointer(path: readonly PathSegment[]): string {
+	return path
+		.map((segment) => {
+			const token = typeof segment === "object"
+				? String(segment.mapKey)
+				: String(segment);
+			return "/" + token.replaceAll("~", "~0").replaceAll("/", "~1");
+		})
+		.join("");
+}
+
+/**
+ * Parses a JavaScript property access path such as `user.roles[1]`,
+ * `["odd key"].value` or `cache.get("a")` into segments. Bracketed numbers
+ * become index segments, quoted strings and dotted names become property keys,
+ * and `.get(...)` with a JSON literal key becomes a Map key segment.
+ * @param path - The path to parse. May start with a dot or bracket.
+ * @returns The parsed segments.
+ * @throws {SyntaxError} If the path is malformed.
+ */
+export function parseJsPath(path: string): PathSegment[] {
+	const segments: PathSegment[] = [];
+	// Each alternative matches one access: `.get(<json>)`, `.name`, a leading `name`,
+	// `[<number>]` or `[<json string>]`.
+	const token =
+		/\.get\(((?:"(?:[^"\\]|\\.)*"|[^)])*)\)|\.?([A-Za-z_$][\w$]*)|\[(\d+)\]|\[("(?:[^"\\]|\\.)*")\]/y;
+	let position = 0;
+
+	while (position < path.length) {
+		token.lastIndex = position;
+		const match = token.exec(path);
+		if (!match || (match[2] !== undefined && position > 0 && path[position] !== ".")) {
+			throw new SyntaxError(`Invalid path "${path}" at position ${position}.`);
+		}
+		if (match[1] !== undefined) {
+			segments.push({ mapKey: parseMapKeyLiteral(match[1], path) });
+		} else if (match[2] !== undefined) {
+			segments.push(match[2]);
+		} else if (match[3] !== undefined) {
+			segments.push(Number(match[3]));
+		} else {
+			segments.push(JSON.parse(match[4]) as string);
+		}
+		position = token.lastIndex;
+	}
+
+	return segments;
+}
+
+/**
+ * Parses the key of a `.get(...)` path segment: a JSON literal (string, number,
+ * boolean or null), `undefined`, or a bigint literal such as `10n`.
+ * @param literal - The text between the parentheses.
+ * @param path - The full path, for error messages.
+ * @returns The Map key.
+ * @throws {SyntaxError} If the literal can't be parsed.
+ */
+function parseMapKeyLiteral(literal: string, path: string): unknown {
+	const trimmed = literal.trim();
+	if (trimmed === "undefined") return undefined;
+	if (/^-?\d+n$/.test(trimmed)) return BigInt(trimmed.slice(0, -1));
+	try {
+		return JSON.parse(trimmed);
+	} catch {
+		throw new SyntaxError(`Invalid Map key "${literal}" in path "${path}".`);
+	}
+}
+
+/**
+ * Parses a JSON Pointer (RFC 6901) into property key segments, unescaping
+ * `~1` and `~0`. Every token is returned as a string.
+ * @param pointer - The pointer, either empty or starting with `/`.
+ * @returns The parsed segments.
+ * @throws {SyntaxError} If the pointer is not empty and doesn't start with `/`.
+ */
+export function parseJsonPointer(pointer: string): string[] {
+	if (pointer === "") return [];
+	if (!pointer.startsWith("/")) {
+		throw new SyntaxError(`Invalid JSON Pointer "${pointer}".`);
+	}
+	return pointer
+		.slice(1)
+		.split("/")
+		.map((token) => token.replaceAll("~1", "/").replaceAll("~0", "~"));
+}
+
+// --- Path Globs ---
+
+/**
+ * A segment of a parsed path glob: a literal segment text, `"*"` (any single
+ * segment) or `"**"` (any number of segments, including none).
+ */
+export type PathGlobSegment = { text: string } | "*" | "**";
+
+/**
+ * Converts a path segment into the text compared against path globs: property
+ * keys as-is (symbols in their `String()` form), indices as numbers, and Map
+ * keys converted with `String`.
+ * @param segment - The path segment.
+ * @returns The segment's text.
+ */
+export function getSegmentText(segment: PathSegment): string {
+	return typeof segment === "object" ? String(segment.mapKey) : String(segment);
+}
+
+/**
+ * Parses a path glob such as `user.**`, `data[*].id` or `*.headers["x-token"]`.
+ * Segments are separated by dots or written in brackets; `*` matches any single
+ * segment and `**` any number of segments. Bracketed numbers and quoted strings
+ * are matched literally, so `["*"]` matches a key named `*`.
+ * @param glob - The glob to parse. May start with a dot or bracket.
+ * @returns The parsed segments.
+ * @throws {SyntaxError} If the glob is malformed.
+ */
+export function parsePathGlob(glob: string): PathGlobSegment[] {
+	const segments: PathGlobSegment[] = [];
+	// Each alternative matches one segment: `.name`, `.*`/`.**`, or a bracketed
+	// wildcard, index or JSON string.
+	const token = /\.?(\*\*?|[^.[\]*]+)|\[(\*\*?|\d+|"(?:[^"\\]|\\.)*")\]/y;
+	let position = 0;
+
+	while (position < glob.length) {
+		token.lastIndex = position;
+		const match = token.exec(glob);
+		if (!match || (match[1] !== undefined && position > 0 && glob[position] !== ".")) {
+			throw new SyntaxError(`Invalid path glob "${glob}" at position ${position}.`);
+		}
+		const part = match[1] ?? match[2];
+		if (part === "*" || part === "**") {
+			segments.push(part);
+		} else {
+			segments.push({ text: part.startsWith('"') ? JSON.parse(part) as string : part });
+		}
+		position = token.lastIndex;
+	}
+
+	return segments;
+}
+
+/**
+ * Matches a path against a parsed path glob.
+ * @param glob - The parsed glob.
+ * @param path - The path segments.
+ * @returns Whether the glob matches the path itself, and whether it could match
+ * one of the path's descendants.
+ */
+export function matchPathGlob(
+	glob: readonly PathGlobSegment[],
+	path: readonly PathSegment[],
+): { matches: boolean; matchesDescendants: boolean } {
+	// Track every position in the glob that the path so far could have reached.
+	// A `**` can always be skipped, so positions after one are reachable too.
+	const withSkips = (positions: Set<number>) => {
+		for (const position of positions) {
+			if (glob[position] === "**") positions.add(position + 1);
+		}
+		return positions;
+	};
+	let positions = withSkips(new Set([0]));
+	for (const segment of path) {
+		const text = getSegmentText(segment);
+		const next = new Set<number>();
+		for (const position of positions) {
+			const part = glob[position];
+			if (part === "**") {
+				next.add(position);
+			} else if (part === "*" || (part !== undefined && part.text === text)) {
+				next.add(position + 1);
+			}
+		}
+		positions = withSkips(next);
+		if (positions.size === 0) break;
+	}
+	return {
+		matches: positions.has(glob.length),
+		matchesDescendants: [...positions].some((position) => position < glob.length),
+	};
+}
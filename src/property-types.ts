@@ -0,0 +1,210 @@
+import type {
+	FunctionInfo,
+	FunctionKind,
+	PropertyTreeNode,
+	PropertyType,
+	ReferenceInfo,
+} from "./types.ts";
+
+// --- Type Sets ---
+
+/** Types whose nodes hold the primitive value itself in `value`. */
+export const PRIMITIVE_TYPES: ReadonlySet<PropertyType> = new Set<PropertyType>([
+	"string",
+	"number",
+	"boolean",
+	"symbol",
+	"bigint",
+	"undefined",
+	"null",
+]);
+
+/**
+ * Built-in object types whose nodes hold a string representation in `value`
+ * (an ISO timestamp for dates, the source with flags for regular expressions).
+ */
+export const DISPLAY_VALUE_TYPES: ReadonlySet<PropertyType> = new Set<PropertyType>([
+	"date",
+	"regexp",
+]);
+
+/** The types whose nodes can be expanded into child nodes. */
+export type ExpandableType = "object" | "array" | "map" | "set" | "typedarray";
+
+/** Types whose nodes can be expanded into child nodes. */
+export const EXPANDABLE_TYPES: ReadonlySet<PropertyType> = new Set<ExpandableType>([
+	"object",
+	"array",
+	"map",
+	"set",
+	"typedarray",
+]);
+
+// --- Type Detection ---
+
+/**
+ * Determines the `PropertyType` of a given JavaScript value.
+ * Handles primitives, null, arrays, objects, and functions.
+ * @param value - The value to inspect.
+ * @returns The corresponding `PropertyType`.
+ */
+export function getPropertyType(value: unknown): PropertyType {
+	if (value === null) {
+		return "null";
+	}
+	if (Array.isArray(value)) {
+		return "array";
+	}
+	const type = typeof value;
+	switch (type) {
+		case "string":
+		case "number":
+		case "boolean":
+		case "function":
+		case "symbol":
+		case "bigint":
+		case "undefined":
+			return type;
+		case "object": // Catches non-null objects
+			return getObjectType(value as object);
+		default:
+			// Should not happen for standard JavaScript types, but handles potential edge cases.
+			console.warn("Encountered unexpected typeof result:", type);
+			return "error"; // Treat unexpected types as errors
+	}
+}
+
+/**
+ * Determines the `PropertyType` of a non-null, non-array object, recognising
+ * the built-in collection, date, regexp, promise and binary data types.
+ * Subclasses of built-ins are reported as their built-in type.
+ * @param value - The object to inspect.
+ * @returns The corresponding `PropertyType`, or "object" for anything else.
+ */
+export function getObjectType(value: object): PropertyType {
+	if (value instanceof Map) return "map";
+	if (value instanceof Set) return "set";
+	if (value instanceof WeakMap) return "weakmap";
+	if (value instanceof WeakSet) return "weakset";
+	if (value instanceof WeakRef) return "weakref";
+	if (value instanceof Date) return "date";
+	if (value instanceof RegExp) return "regexp";
+	if (value instanceof Promise) return "promise";
+	if (
+		value instanceof ArrayBuffer ||
+		(typeof SharedArrayBuffer !== "undefined" &&
+			value instanceof SharedArrayBuffer)
+	) {
+		return "arraybuffer";
+	}
+	if (value instanceof DataView) return "dataview";
+	if (ArrayBuffer.isView(value)) return "typedarray";
+	return "object";
+}
+
+// --- Function Details ---
+
+/** The kinds of function identified by their `Object.prototype.toString` tag. */
+const FUNCTION_KINDS_BY_TAG: Readonly<Record<string, FunctionKind>> = {
+	"[object AsyncFunction]": "async",
+	"[object GeneratorFunction]": "generator",
+	"[object AsyncGeneratorFunction]": "async generator",
+};
+
+/**
+ * Determines what kind of function a value is, from its source code and tag.
+ * Methods and functions without a prototype are told apart from arrow
+ * functions by how their source starts, since only arrow functions start with
+ * a parameter list or a lone parameter followed by `=>`.
+ * @param fn - The function.
+ * @param source - The function's source, from `Function.prototype.toString`.
+ * @param name - The function's name.
+ * @returns The function's kind.
+ */
+function getFunctionKind(
+	fn: (...args: never[]) => unknown,
+	source: string,
+	name: string,
+): FunctionKind {
+	if (/^class\b/.test(source)) return "class";
+	if (source.endsWith("{ [native code] }")) {
+		return name.startsWith("bound ") ? "bound" : "native";
+	}
+	const tagged = FUNCTION_KINDS_BY_TAG[Object.prototype.toString.call(fn)];
+	if (tagged) return tagged;
+	if (Object.hasOwn(fn, "prototype")) return "regular";
+	return /^(?:\(|[\w$]+\s*=>)/.test(source) ? "arrow" : "regular";
+}
+
+/**
+ * Describes a function for `PropertyTreeNode.functionInfo`: its name, arity
+ * and kind, and optionally a preview of its source.
+ * @param fn - The function.
+ * @param sourceLength - The number of characters of source to preview, or
+ * `null` for none.
+ * @returns The description.
+ */
+export function describeFunction(
+	fn: (...args: never[]) => unknown,
+	sourceLength: number | null,
+): FunctionInfo {
+	let source = "";
+	try {
+		source = Function.prototype.toString.call(fn);
+	} catch {
+		// Some exotic callables refuse to be stringified; treat them as native.
+		source = "function () { [native code] }";
+	}
+	// `name` and `length` can be redefined, e.g. by a static `name()` method.
+	const name = typeof fn.name === "string" ? fn.name : "";
+	const kind = getFunctionKind(fn, source, name);
+	const info: FunctionInfo = {
+		name: kind === "bound" ? name.replace(/^bound /, "") : name,
+		arity: typeof fn.length === "number" ? fn.length : 0,
+		kind,
+	};
+	if (sourceLength !== null && kind !== "native" && kind !== "bound") {
+		const line = source.replace(/\s+/g, " ");
+		info.source = line.length > sourceLength ? line.slice(0, sourceLength) + "…" : line;
+	}
+	return info;
+}
+
+// --- Node Type Guards ---
+
+/**
+ * Determines whether a node is of a type that can be expanded into children:
+ * an object, array, Map, Set or typed array. Whether it actually has children
+ * depends on `maxDepth` and the other build options (see `hasChildren`).
+ * @param node - The node.
+ * @returns `true` if the node's type is expandable.
+ */
+export function isExpandableNode(
+	node: PropertyTreeNode,
+): node is PropertyTreeNode & { type: ExpandableType } {
+	return EXPANDABLE_TYPES.has(node.type);
+}
+
+/**
+ * Determines whether a node was expanded, so has a `children` array (which
+ * may be empty).
+ * @param node - The node.
+ * @returns `true` if the node has a `children` array.
+ */
+export function hasChildren(
+	node: PropertyTreeNode,
+): node is PropertyTreeNode & { children: PropertyTreeNode[] } {
+	return Array.isArray(node.children);
+}
+
+/**
+ * Determines whether a node is a circular or shared reference to another node,
+ * described by its `reference`.
+ * @param node - The node.
+ * @returns `true` if the node is a reference.
+ */
+export function isReferenceNode(
+	node: PropertyTreeNode,
+): node is PropertyTreeNode & { reference: ReferenceInfo } {
+	return node.reference !== undefined;
+}
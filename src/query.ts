@@ -0,0 +1,237 @@
+import { getSegmentName, parseJsonPointer, parseJsPath } from "./paths.ts";
+import type { PathSegment, PropertyTreeNode } from "./types.ts";
+
+// --- Types ---
+
+/**
+ * Information about a node's position, passed to visitor and predicate callbacks.
+ */
+export interface WalkContext {
+	/** The node's parent, or `undefined` for the node the walk started from. */
+	parent: PropertyTreeNode | undefined;
+
+	/** The node's depth relative to the node the walk started from (which is at depth 0). */
+	depth: number;
+
+	/** The node's index among its parent's children (0 for the starting node). */
+	index: number;
+}
+
+/**
+ * Callbacks for `walkPropertyTree`. `enter` is called before a node's children
+ * are visited and may return `false` to skip them; `leave` is called after.
+ */
+export interface PropertyTreeVisitor {
+	/** Called when a node is first reached. Return `false` to skip the node's children. */
+	enter?: (node: PropertyTreeNode, context: WalkContext) => void | boolean;
+
+	/** Called once all of a node's children have been visited (or skipped). */
+	leave?: (node: PropertyTreeNode, context: WalkContext) => void;
+}
+
+/**
+ * Internal interface representing a node waiting on the `walkPropertyTree` stack.
+ */
+interface WalkFrame {
+	/** The node to visit. */
+	node: PropertyTreeNode;
+
+	/** The node's position in the tree. */
+	context: WalkContext;
+
+	/** `true` once `enter` has been called and the children have been pushed. */
+	entered: boolean;
+}
+
+// --- Internal Helper Functions ---
+
+/**
+ * Returns the string form used to compare a path segment with segments of
+ * another kind (e.g. the index `1` with the key `"1"`, or a JSON Pointer token
+ * with a Map key). Map keys that are objects have no string form.
+ * @param segment - The path segment.
+ * @returns The segment's string form, or `undefined` if it has none.
+ */
+function getSegmentToken(segment: PathSegment): string | undefined {
+	if (typeof segment !== "object") {
+		return String(segment);
+	}
+	const { mapKey } = segment;
+	return (typeof mapKey === "object" && mapKey !== null) ||
+			typeof mapKey === "function"
+		? undefined
+		: String(mapKey);
+}
+
+/**
+ * Determines whether a child node is addressed by a path segment. Nodes built by
+ * `buildPropertyTree` are matched by the last segment of their `path`: segments of
+ * the same kind must be identical, while an index, property key or JSON Pointer
+ * token matches any segment with the same string form (as property access does in
+ * JavaScript). Nodes without a `path` are matched by name.
+ * @param child - The candidate child node.
+ * @param segment - The segment to match.
+ * @returns `true` if the segment addresses the child.
+ */
+function matchesSegment(child: PropertyTreeNode, segment: PathSegment): boolean {
+	const own = child.path?.at(-1);
+	if (own === undefined) {
+		return child.name === getSegmentName(segment);
+	}
+	if (typeof own === "object" && typeof segment === "object") {
+		return Object.is(own.mapKey, segment.mapKey);
+	}
+	if (Object.is(own, segment)) {
+		return true;
+	}
+	const token = getSegmentToken(segment);
+	return token !== undefined && getSegmentToken(own) === token;
+}
+
+/**
+ * Follows a sequence of path segments down from a node.
+ * @param node - The node to start from.
+ * @param segments - The segments to follow.
+ * @returns The node at the end of the path, or `undefined` if there is none.
+ */
+function resolveSegments(
+	node: PropertyTreeNode,
+	segments: readonly PathSegment[],
+): PropertyTreeNode | undefined {
+	let current: PropertyTreeNode | undefined = node;
+	for (const segment of segments) {
+		current = current.children?.find((child) => matchesSegment(child, segment));
+		if (!current) {
+			return undefined;
+		}
+	}
+	return current;
+}
+
+// --- Public API Functions ---
+
+/**
+ * Walks a property tree depth-first, in the same order the nodes are formatted,
+ * calling the visitor for each node. Implemented iteratively, so very deep trees
+ * don't overflow the call stack.
+ *
+ * ```ts
+ * walkPropertyTree(tree, {
+ *   enter: (node, { depth }) => console.log(depth, node.name),
+ *   leave: (node) => console.log("done", node.name),
+ * });
+ * ```
+ *
+ * @param tree - The root node of the tree (or any node, to walk a subtree).
+ * @param visitor - A `PropertyTreeVisitor`, or a function used as its `enter` callback.
+ */
+export function walkPropertyTree(
+	tree: PropertyTreeNode,
+	visitor:
+		| PropertyTreeVisitor
+		| ((node: PropertyTreeNode, context: WalkContext) => void | boolean),
+): void {
+	const { enter, leave } = typeof visitor === "function"
+		? { enter: visitor, leave: undefined }
+		: visitor;
+	const stack: WalkFrame[] = [{
+		node: tree,
+		context: { parent: undefined, depth: 0, index: 0 },
+		entered: false,
+	}];
+
+	while (stack.length > 0) {
+		const frame = stack[stack.length - 1];
+		if (frame.entered) {
+			stack.pop();
+			leave?.(frame.node, frame.context);
+			continue;
+		}
+
+		frame.entered = true;
+		if (enter?.(frame.node, frame.context) === false) {
+			continue;
+		}
+		const children = frame.node.children ?? [];
+		// Push in reverse so the first child is visited first.
+		for (let i = children.length - 1; i >= 0; i--) {
+			stack.push({
+				node: children[i],
+				context: { parent: frame.node, depth: frame.context.depth + 1, index: i },
+				entered: false,
+			});
+		}
+	}
+}
+
+/**
+ * Finds every node in a property tree matching a predicate, in depth-first order.
+ *
+ * ```ts
+ * const errors = findNodes(tree, (node) => node.type === "error");
+ * ```
+ *
+ * @param tree - The root node of the tree to search.
+ * @param predicate - Called for each node; return `true` to include it in the results.
+ * @returns The matching nodes.
+ */
+export function findNodes(
+	tree: PropertyTreeNode,
+	predicate: (node: PropertyTreeNode, context: WalkContext) => boolean,
+): PropertyTreeNode[] {
+	const matches: PropertyTreeNode[] = [];
+	walkPropertyTree(tree, (node, context) => {
+		if (predicate(node, context)) {
+			matches.push(node);
+		}
+	});
+	return matches;
+}
+
+/**
+ * Finds the node at a path in a property tree. The path can be:
+ * - an array of `PathSegment`s, as recorded in `PropertyTreeNode.path`;
+ * - a JSON Pointer, e.g. `/user/roles/1` (or `""` for the root);
+ * - a JavaScript property access, e.g. `user.roles[1]`, `["odd key"]` or
+ *   `cache.get("a")`, optionally starting with the root's name as in
+ *   `PropertyTreeNode.jsPath` (`root.user.roles[1]`).
+ *
+ * Indices and property keys with the same string form are interchangeable.
+ *
+ * @param tree - The root node of the tree.
+ * @param path - The path to look up.
+ * @returns The node at the path, or `undefined` if the tree has no such node
+ * (including paths beyond the depth the tree was built to).
+ * @throws {SyntaxError} If a string path is malformed.
+ */
+export function getNodeAtPath(
+	tree: PropertyTreeNode,
+	path: string | readonly PathSegment[],
+): PropertyTreeNode | undefined {
+	if (typeof path !== "string") {
+		return resolveSegments(tree, path);
+	}
+	if (path === "" || path.startsWith("/")) {
+		return resolveSegments(tree, parseJsonPointer(path));
+	}
+
+	// Prefer treating a leading root name as the root itself, falling back to a
+	// relative path in case a top-level property shares the root's name.
+	const rest = path.slice(tree.name.length);
+	if (
+		path.startsWith(tree.name) &&
+		(rest === "" || rest.startsWith(".") || rest.startsWith("["))
+	) {
+		const found = resolveSegments(tree, parseJsPath(rest));
+		if (found) {
+			return found;
+		}
+		try {
+			return resolveSegments(tree, parseJsPath(path));
+		} catch {
+			// The root name isn't a valid property access (e.g. it contains spaces).
+			return undefined;
+		}
+	}
+	return resolveSegments(tree, parseJsPath(path));
+}
@@ -0,0 +1,65 @@
+import {
+	getSegmentText,
+	matchPathGlob,
+	parsePathGlob,
+	type PathGlobSegment,
+} from "./paths.ts";
+import type { PathSegment } from "./types.ts";
+
+// --- Defaults ---
+
+/**
+ * Key patterns for common secrets, for use with `BuildOptions.redact`:
+ * passwords, secrets, tokens, API and private keys, credentials, and the
+ * `Authorization` and `Cookie` headers. Extend it with your own patterns, e.g.
+ * `redact: [...DEFAULT_REDACT_PATTERNS, "ssn"]`.
+ */
+export const DEFAULT_REDACT_PATTERNS: ReadonlyArray<string | RegExp> = [
+	/passw(or)?d|passphrase|^pass$/i,
+	/secret/i,
+	/token/i,
+	/api[-_]?key/i,
+	/private[-_]?key/i,
+	/credential/i,
+	/^(proxy-)?authorization$/i,
+	/^(set-)?cookie$/i,
+];
+
+// --- Matching ---
+
+/**
+ * Creates a function that determines whether the node at a path should be
+ * redacted (see `BuildOptions.redact`). Strings containing a `.`, `*` or `[`
+ * are path globs (see `parsePathGlob`) matched against the whole path; other
+ * strings and regular expressions are matched against the last segment only.
+ * @param patterns - The key names, regular expressions and path globs.
+ * @returns The matcher, or `undefined` if there are no patterns.
+ * @throws {SyntaxError} If a path glob is malformed.
+ */
+export function createRedactionMatcher(
+	patterns: ReadonlyArray<string | RegExp>,
+): ((path: readonly PathSegment[]) => boolean) | undefined {
+	if (patterns.length === 0) return undefined;
+
+	const keys = new Set<string>();
+	const expressions: RegExp[] = [];
+	const globs: PathGlobSegment[][] = [];
+	for (const pattern of patterns) {
+		if (typeof pattern !== "string") {
+			expressions.push(pattern);
+		} else if (/[.*[]/.test(pattern)) {
+			globs.push(parsePathGlob(pattern));
+		} else {
+			keys.add(pattern);
+		}
+	}
+
+	return (path) => {
+		if (path.length === 0) return false;
+		const key = getSegmentText(path[path.length - 1]);
+		if (keys.has(key) || expressions.some((expression) => expression.test(key))) {
+			return true;
+		}
+		return globs.some((glob) => matchPathGlob(glob, path).matches);
+	};
+}
@@ -0,0 +1,359 @@
+import {
+	formatNodeAnnotations,
+	formatNodeLabel,
+	formatNodeName,
+	formatNodeToString,
+	formatNodeValue,
+	formatTypeLabel,
+} from "./format.ts";
+import {
+	type FormatOptions,
+	type ResolvedFormatOptions,
+	resolveFormatOptions,
+} from "./options.ts";
+import { orderChildren } from "./ordering.ts";
+import { walkPropertyTree } from "./query.ts";
+import { sortPropertyTree } from "./transform.ts";
+import type { PropertyTreeNode } from "./types.ts";
+
+// --- Types ---
+
+/**
+ * Renders a property tree into some output format. Implement this interface to
+ * add a custom format, and pass it to `renderPropertyTree`.
+ */
+export interface PropertyTreeRenderer {
+	/**
+	 * Renders a tree.
+	 * @param tree - The root node of the tree to render.
+	 * @param options - Options controlling the output. See `FormatOptions`.
+	 * @returns The rendered tree.
+	 */
+	render(tree: PropertyTreeNode, options?: FormatOptions): string;
+}
+
+/** The names of the built-in renderers accepted by `renderPropertyTree`. */
+export type RendererFormat = "text" | "markdown" | "html" | "dot" | "mermaid";
+
+/**
+ * Internal interface representing a property tree flattened into a graph, as
+ * drawn by the DOT and Mermaid renderers.
+ */
+interface PropertyTreeGraph {
+	/** The nodes drawn in the graph, with their ids, in depth-first order. */
+	nodes: { id: string; node: PropertyTreeNode }[];
+
+	/** The edges between nodes. */
+	edges: GraphEdge[];
+}
+
+/**
+ * An edge of a `PropertyTreeGraph`, from a parent to its child. Reference edges
+ * point from the object holding a circular or shared reference back to the
+ * node it refers to instead, and are labelled with the referring property's
+ * name.
+ */
+type GraphEdge =
+	& { from: string; to: string }
+	& ({ isReference: true; label: string } | { isReference: false });
+
+// --- Internal Helper Functions ---
+
+/**
+ * Escapes text for use in HTML content and attribute values.
+ * @param text - The text to escape.
+ * @returns The escaped text.
+ */
+function escapeHtml(text: string): string {
+	return text
+		.replaceAll("&", "&amp;")
+		.replaceAll("<", "&lt;")
+		.replaceAll(">", "&gt;")
+		.replaceAll('"', "&quot;");
+}
+
+/**
+ * Wraps text in a Markdown code span, using a longer backtick fence if the text
+ * itself contains backticks.
+ * @param text - The text to wrap.
+ * @returns The code span.
+ */
+function toCodeSpan(text: string): string {
+	const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+	const fence = "`".repeat(longestRun + 1);
+	// Pad with spaces so backticks at either end don't merge with the fence.
+	const padding = longestRun > 0 ? " " : "";
+	return `${fence}${padding}${text}${padding}${fence}`;
+}
+
+/**
+ * Resolves format options for renderers whose output isn't shown in a terminal,
+ * so never includes ANSI colors.
+ * @param options - The caller's options, if any.
+ * @returns The resolved options, with `colors` disabled.
+ */
+function resolvePlainOptions(options: FormatOptions | undefined): ResolvedFormatOptions {
+	return { ...resolveFormatOptions(options), colors: false };
+}
+
+/**
+ * Flattens a tree into graph nodes and edges. Nodes holding a circular or
+ * shared reference are drawn as an edge to the node they refer to, found by
+ * its `jsPath`; references whose target isn't in the tree are drawn as
+ * ordinary nodes.
+ * @param tree - The root node of the tree.
+ * @returns The graph.
+ */
+function toGraph(tree: PropertyTreeNode): PropertyTreeGraph {
+	const ids = new Map<PropertyTreeNode, string>();
+	const idsByPath = new Map<string, string>();
+	walkPropertyTree(tree, (node) => {
+		const id = `n${ids.size}`;
+		ids.set(node, id);
+		if (node.jsPath !== undefined && !node.reference) {
+			idsByPath.set(node.jsPath, id);
+		}
+	});
+
+	// Every node was given an id by the first walk.
+	const getId = (node: PropertyTreeNode) => {
+		const id = ids.get(node);
+		if (id === undefined) {
+			throw new Error(`Missing graph id for node "${node.jsPath ?? node.name}"`);
+		}
+		return id;
+	};
+
+	const graph: PropertyTreeGraph = { nodes: [], edges: [] };
+	walkPropertyTree(tree, (node, { parent }) => {
+		const id = getId(node);
+		const parentId = parent && getId(parent);
+		const target = node.reference && idsByPath.get(node.reference.path);
+		if (parentId !== undefined && target !== undefined) {
+			graph.edges.push({
+				from: parentId,
+				to: target,
+				label: formatNodeName(node),
+				isReference: true,
+			});
+			return;
+		}
+		graph.nodes.push({ id, node });
+		if (parentId !== undefined) {
+			graph.edges.push({ from: parentId, to: id, isReference: false });
+		}
+	});
+	return graph;
+}
+
+/**
+ * Recursively renders a node and its children as Markdown list items.
+ * @param node - The node to render.
+ * @param options - The resolved format options.
+ * @param indent - The indentation for the node's list item.
+ * @param lines - The output lines, appended to in place.
+ */
+function renderMarkdownNode(
+	node: PropertyTreeNode,
+	options: ResolvedFormatOptions,
+	indent: string,
+	lines: string[],
+): void {
+	lines.push(`${indent}- ${toCodeSpan(formatNodeLabel(node, options))}`);
+	for (const child of orderChildren(node, options.order)) {
+		renderMarkdownNode(child, options, indent + "  ", lines);
+	}
+}
+
+/**
+ * Renders a node's label as HTML, with each part in its own `<span>` so it can
+ * be styled, e.g. `<span class="name">name</span>`.
+ * @param node - The node.
+ * @param options - The resolved format options.
+ * @returns The HTML for the label.
+ */
+function renderHtmlLabel(node: PropertyTreeNode, options: ResolvedFormatOptions): string {
+	if (node.type === "elision") {
+		return `<span class="elision">${escapeHtml(node.name)}</span>`;
+	}
+	const value = formatNodeValue(node, options);
+	const annotations = formatNodeAnnotations(node).trim();
+	return `<span class="name">${escapeHtml(formatNodeName(node))}</span>` +
+		(options.showTypes
+			? ` <span class="type">(${escapeHtml(formatTypeLabel(node, options))})</span>`
+			: "") +
+		(annotations ? ` <span class="annotations">${escapeHtml(annotations)}</span>` : "") +
+		(value === undefined ? "" : `: <span class="value">${escapeHtml(value)}</span>`);
+}
+
+/**
+ * Recursively renders a node and its children as HTML list items. Nodes with
+ * children become `<details>` elements that can be collapsed.
+ * @param node - The node to render.
+ * @param options - The resolved format options.
+ * @param indent - The indentation for the node's list item.
+ * @param lines - The output lines, appended to in place.
+ */
+function renderHtmlNode(
+	node: PropertyTreeNode,
+	options: ResolvedFormatOptions,
+	indent: string,
+	lines: string[],
+): void {
+	const label = renderHtmlLabel(node, options);
+	if (!node.children || node.children.length === 0) {
+		lines.push(`${indent}<li>${label}</li>`);
+		return;
+	}
+	lines.push(`${indent}<li><details open><summary>${label}</summary>`);
+	lines.push(`${indent}\t<ul>`);
+	for (const child of orderChildren(node, options.order)) {
+		renderHtmlNode(child, options, indent + "\t\t", lines);
+	}
+	lines.push(`${indent}\t</ul>`);
+	lines.push(`${indent}</details></li>`);
+}
+
+// --- Built-in Renderers ---
+
+/**
+ * Renders trees as box-drawing text, the same as `formatPropertyTreeToString`.
+ */
+export const textRenderer: PropertyTreeRenderer = {
+	render(tree, options) {
+		return formatNodeToString(tree, resolveFormatOptions(options));
+	},
+};
+
+/**
+ * Renders trees as a nested Markdown list, with each label in a code span:
+ *
+ * ```md
+ * - `root (object)`
+ *   - `name (string): "Alice"`
+ * ```
+ */
+export const markdownRenderer: PropertyTreeRenderer = {
+	render(tree, options) {
+		const lines: string[] = [];
+		renderMarkdownNode(tree, resolvePlainOptions(options), "", lines);
+		return lines.join("\n");
+	},
+};
+
+/**
+ * Renders trees as a standalone HTML document. Branches are `<details>` elements,
+ * expanded by default, that can be collapsed by clicking their `<summary>`.
+ */
+export const htmlRenderer: PropertyTreeRenderer = {
+	render(tree, options) {
+		const lines: string[] = [];
+		renderHtmlNode(tree, resolvePlainOptions(options), "\t\t", lines);
+		return [
+			"<!DOCTYPE html>",
+			'<html lang="en">',
+			"<head>",
+			'\t<meta charset="utf-8">',
+			`\t<title>${escapeHtml(tree.name)}</title>`,
+			"\t<style>",
+			"\t\t.property-tree, .property-tree ul { list-style: none; font-family: monospace; }",
+			"\t\t.property-tree ul { padding-left: 1.5em; }",
+			"\t\t.property-tree .type, .property-tree .annotations, .property-tree .elision { color: #6a737d; }",
+			"\t</style>",
+			"</head>",
+			"<body>",
+			'\t<ul class="property-tree">',
+			...lines,
+			"\t</ul>",
+			"</body>",
+			"</html>",
+		].join("\n");
+	},
+};
+
+/**
+ * Renders trees as a Graphviz DOT digraph. Circular and shared references are
+ * drawn as dashed edges back to the node they refer to.
+ */
+export const dotRenderer: PropertyTreeRenderer = {
+	render(tree, options) {
+		const resolved = resolvePlainOptions(options);
+		const quote = (text: string) =>
+			`"${text.replaceAll("\\", "\\\\").replaceAll('"', '\\"')}"`;
+		const { nodes, edges } = toGraph(sortPropertyTree(tree, resolved.order));
+		return [
+			`digraph ${quote(tree.name)} {`,
+			'\tnode [shape=box, fontname="monospace"];',
+			...nodes.map(({ id, node }) => `\t${id} [label=${quote(formatNodeLabel(node, resolved))}];`),
+			...edges.map((edge) =>
+				edge.isReference
+					? `\t${edge.from} -> ${edge.to} [label=${quote(edge.label)}, style=dashed, constraint=false];`
+					: `\t${edge.from} -> ${edge.to};`
+			),
+			"}",
+		].join("\n");
+	},
+};
+
+/**
+ * Renders trees as a Mermaid flowchart. Circular and shared references are
+ * drawn as dotted edges back to the node they refer to.
+ */
+export const mermaidRenderer: PropertyTreeRenderer = {
+	render(tree, options) {
+		const resolved = resolvePlainOptions(options);
+		// Mermaid entity codes, e.g. `#quot;`, keep labels from breaking the syntax.
+		const quote = (text: string) =>
+			`"${
+				text
+					.replaceAll("#", "#35;")
+					.replaceAll('"', "#quot;")
+					.replaceAll("<", "#lt;")
+					.replaceAll(">", "#gt;")
+			}"`;
+		const { nodes, edges } = toGraph(sortPropertyTree(tree, resolved.order));
+		return [
+			"flowchart TD",
+			...nodes.map(({ id, node }) => `\t${id}[${quote(formatNodeLabel(node, resolved))}]`),
+			...edges.map((edge) =>
+				edge.isReference
+					? `\t${edge.from} -.->|${quote(edge.label)}| ${edge.to}`
+					: `\t${edge.from} --> ${edge.to}`
+			),
+		].join("\n");
+	},
+};
+
+/** The built-in renderers, keyed by format name. */
+const RENDERERS: Record<RendererFormat, PropertyTreeRenderer> = {
+	text: textRenderer,
+	markdown: markdownRenderer,
+	html: htmlRenderer,
+	dot: dotRenderer,
+	mermaid: mermaidRenderer,
+};
+
+// --- Public API Functions ---
+
+/**
+ * Renders a property tree with a built-in or custom renderer.
+ *
+ * ```ts
+ * const markdown = renderPropertyTree(tree, "markdown");
+ * const custom = renderPropertyTree(tree, { render: (tree) => tree.name });
+ * ```
+ *
+ * @param tree - The root node of the tree to render.
+ * @param renderer - The name of a built-in renderer, or a `PropertyTreeRenderer`.
+ * Defaults to `"text"`.
+ * @param options - Options controlling the output. See `FormatOptions`.
+ * @returns The rendered tree.
+ */
+export function renderPropertyTree(
+	tree: PropertyTreeNode,
+	renderer: RendererFormat | PropertyTreeRenderer = "text",
+	options?: FormatOptions,
+): string {
+	const resolved = typeof renderer === "string" ? RENDERERS[renderer] : renderer;
+	return resolved.render(tree, options);
+}
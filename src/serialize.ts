@@ -0,0 +1,297 @@
+import {
+	ACCESS_ERROR_MARKER,
+	CIRCULAR_REFERENCE_MARKER,
+	GETTER_MARKER,
+	GETTER_SETTER_MARKER,
+	MARKERS,
+	PENDING_MARKER,
+	REDACTED_MARKER,
+	REJECTED_MARKER,
+	SETTER_MARKER,
+	SHARED_REFERENCE_MARKER,
+	TIMED_OUT_MARKER,
+	TRUNCATED_MARKER,
+} from "./markers.ts";
+import type { PathSegment, PropertyTreeNode } from "./types.ts";
+
+// --- Serialized Format ---
+//
+// A serialized tree is a JSON document of the form
+//
+//   { "format": "object-property-tree", "version": 1, "root": <node> }
+//
+// Each node is a JSON object with the same properties as `PropertyTreeNode`.
+// Properties holding plain JSON data (names, types, flags, descriptors,
+// references) are stored as-is, while `value` and the `path` segments are
+// encoded so that no information is lost:
+//
+// - strings, booleans, `null` and finite numbers are stored as JSON values;
+// - `undefined` is `{ "$type": "undefined" }`;
+// - `NaN`, `Infinity`, `-Infinity` and `-0` are `{ "$type": "number", "value": "NaN" }`, etc.;
+// - bigints are `{ "$type": "bigint", "value": "123" }`;
+// - symbols are `{ "$type": "symbol", "description": "id" }`, with
+//   `"registered": true` for symbols created with `Symbol.for`;
+// - markers on non-string nodes are `{ "$marker": "circular" }`, using the
+//   names in `MARKER_NAMES`;
+// - Map key path segments are `{ "mapKey": <encoded key> }`. Keys that are
+//   objects or functions are stored as `{ "$type": "object" }` and parsed back
+//   as new empty objects.
+
+/** The `format` field of a serialized property tree. */
+const SERIALIZED_FORMAT = "object-property-tree";
+
+/** The current version of the serialized format. */
+export const SERIALIZED_TREE_VERSION = 1;
+
+/** Names used for the markers in serialized trees. */
+const MARKER_NAMES: Record<string, string> = {
+	[CIRCULAR_REFERENCE_MARKER]: "circular",
+	[SHARED_REFERENCE_MARKER]: "shared",
+	[ACCESS_ERROR_MARKER]: "access-error",
+	[TRUNCATED_MARKER]: "truncated",
+	[REDACTED_MARKER]: "redacted",
+	[PENDING_MARKER]: "pending",
+	[REJECTED_MARKER]: "rejected",
+	[TIMED_OUT_MARKER]: "timed-out",
+	[GETTER_MARKER]: "getter",
+	[SETTER_MARKER]: "setter",
+	[GETTER_SETTER_MARKER]: "getter-setter",
+};
+
+/** The markers, keyed by their serialized names. */
+const MARKERS_BY_NAME: Record<string, string> = Object.fromEntries(
+	Object.entries(MARKER_NAMES).map(([marker, name]) => [name, marker]),
+);
+
+/** The numbers JSON can't represent, as encoded by `encodeValue`. */
+const SPECIAL_NUMBERS: readonly unknown[] = ["NaN", "Infinity", "-Infinity", "-0"];
+
+// --- Encoding ---
+
+/**
+ * Encodes a value as JSON data, tagging values JSON can't represent.
+ * @param value - A node value or Map key.
+ * @returns The encoded value.
+ */
+function encodeValue(value: unknown): unknown {
+	switch (typeof value) {
+		case "string":
+		case "boolean":
+			return value;
+		case "number":
+			return Number.isFinite(value) && !Object.is(value, -0)
+				? value
+				: { $type: "number", value: Object.is(value, -0) ? "-0" : String(value) };
+		case "bigint":
+			return { $type: "bigint", value: value.toString() };
+		case "symbol": {
+			const key = Symbol.keyFor(value);
+			if (key !== undefined) {
+				return { $type: "symbol", description: key, registered: true };
+			}
+			return value.description === undefined
+				? { $type: "symbol" }
+				: { $type: "symbol", description: value.description };
+		}
+		case "undefined":
+			return { $type: "undefined" };
+		default:
+			return value === null ? null : { $type: "object" };
+	}
+}
+
+/**
+ * Encodes a path segment as JSON data.
+ * @param segment - The path segment.
+ * @returns The encoded segment.
+ */
+function encodeSegment(segment: PathSegment): unknown {
+	return typeof segment === "object"
+		? { mapKey: encodeValue(segment.mapKey) }
+		: encodeValue(segment);
+}
+
+/**
+ * Converts a node and its children into JSON data. Properties other than
+ * `value`, `path` and `children` are copied as-is.
+ * @param node - The node to encode.
+ * @returns The encoded node.
+ */
+function encodeNode(node: PropertyTreeNode): Record<string, unknown> {
+	const encoded: Record<string, unknown> = {};
+	for (const [key, field] of Object.entries(node)) {
+		switch (key) {
+			case "value":
+				encoded.value = MARKERS.has(field) && node.type !== "string"
+					? { $marker: MARKER_NAMES[field as string] }
+					: encodeValue(field);
+				break;
+			case "path":
+				encoded.path = (field as PathSegment[]).map(encodeSegment);
+				break;
+			case "children":
+				encoded.children = (field as PropertyTreeNode[]).map(encodeNode);
+				break;
+			default:
+				encoded[key] = field;
+		}
+	}
+	return encoded;
+}
+
+// --- Decoding ---
+
+/**
+ * Determines whether a value is a (non-array) JSON object.
+ * @param value - The value to check.
+ * @returns `true` if the value is an object.
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Decodes a value encoded by `encodeValue`.
+ * @param encoded - The encoded value.
+ * @returns The original value.
+ * @throws {SyntaxError} If the value has an unknown tag, a number or bigint
+ * isn't encoded as expected, or a registered symbol has no description.
+ */
+function decodeValue(encoded: unknown): unknown {
+	if (!isRecord(encoded)) {
+		return encoded;
+	}
+	if (typeof encoded.$marker === "string" && encoded.$marker in MARKERS_BY_NAME) {
+		return MARKERS_BY_NAME[encoded.$marker];
+	}
+	switch (encoded.$type) {
+		case "undefined":
+			return undefined;
+		case "number":
+			if (SPECIAL_NUMBERS.includes(encoded.value)) {
+				return Number(encoded.value);
+			}
+			break;
+		case "bigint":
+			if (typeof encoded.value === "string" && /^-?\d+$/.test(encoded.value)) {
+				return BigInt(encoded.value);
+			}
+			break;
+		case "symbol": {
+			const { description, registered } = encoded;
+			if (typeof description === "string") {
+				return registered ? Symbol.for(description) : Symbol(description);
+			}
+			if (description === undefined && !registered) {
+				return Symbol();
+			}
+			break;
+		}
+		case "object":
+			return {};
+	}
+	throw new SyntaxError(`Invalid serialized value ${JSON.stringify(encoded)}.`);
+}
+
+/**
+ * Decodes a path segment encoded by `encodeSegment`.
+ * @param encoded - The encoded segment.
+ * @returns The original segment.
+ */
+function decodeSegment(encoded: unknown): PathSegment {
+	return isRecord(encoded) && "mapKey" in encoded
+		? { mapKey: decodeValue(encoded.mapKey) }
+		: decodeValue(encoded) as PathSegment;
+}
+
+/**
+ * Converts JSON data produced by `encodeNode` back into a node and its children.
+ * @param encoded - The encoded node.
+ * @returns The decoded node.
+ * @throws {SyntaxError} If the data is not a valid node.
+ */
+function decodeNode(encoded: unknown): PropertyTreeNode {
+	if (
+		!isRecord(encoded) || typeof encoded.name !== "string" ||
+		typeof encoded.type !== "string"
+	) {
+		throw new SyntaxError(
+			"Invalid serialized property tree node: expected an object with a name and type.",
+		);
+	}
+	const node: Record<string, unknown> = {};
+	for (const [key, field] of Object.entries(encoded)) {
+		switch (key) {
+			case "value":
+				node.value = decodeValue(field);
+				break;
+			case "path":
+			case "children":
+				if (!Array.isArray(field)) {
+					throw new SyntaxError(
+						`Invalid serialized property tree node "${encoded.name}": ${key} must be an array.`,
+					);
+				}
+				node[key] = key === "path" ? field.map(decodeSegment) : field.map(decodeNode);
+				break;
+			default:
+				node[key] = field;
+		}
+	}
+	return node as unknown as PropertyTreeNode;
+}
+
+// --- Public API Functions ---
+
+/**
+ * Serializes a property tree to JSON without losing information: values JSON
+ * can't represent (`undefined`, bigints, symbols, `NaN`, ...) and markers such as
+ * `[Circular Reference]` are encoded explicitly, so `parsePropertyTree` returns a
+ * tree that formats identically. Use it to save trees as fixtures or send them to
+ * log pipelines.
+ *
+ * The output is a versioned document,
+ * `{ "format": "object-property-tree", "version": 1, "root": ... }`.
+ *
+ * @param tree - The root node of the tree to serialize.
+ * @param space - Indentation passed to `JSON.stringify`, e.g. `2` or `"\t"`.
+ * @returns The JSON text.
+ */
+export function serializePropertyTree(
+	tree: PropertyTreeNode,
+	space?: string | number,
+): string {
+	return JSON.stringify(
+		{
+			format: SERIALIZED_FORMAT,
+			version: SERIALIZED_TREE_VERSION,
+			root: encodeNode(tree),
+		},
+		null,
+		space,
+	);
+}
+
+/**
+ * Parses a property tree serialized by `serializePropertyTree`.
+ *
+ * Symbols are recreated from their descriptions (registered symbols with
+ * `Symbol.for`), so they are equivalent but not identical to the originals.
+ *
+ * @param json - The JSON text.
+ * @returns The root node of the parsed tree.
+ * @throws {SyntaxError} If the text is not valid JSON, not a serialized property
+ * tree, or uses an unsupported format version.
+ */
+export function parsePropertyTree(json: string): PropertyTreeNode {
+	const document: unknown = JSON.parse(json);
+	if (!isRecord(document) || document.format !== SERIALIZED_FORMAT) {
+		throw new SyntaxError("Invalid serialized property tree: missing format header.");
+	}
+	if (document.version !== SERIALIZED_TREE_VERSION) {
+		throw new SyntaxError(
+			`Unsupported serialized property tree version: ${document.version}. Expected ${SERIALIZED_TREE_VERSION}.`,
+		);
+	}
+	return decodeNode(document.root);
+}
@@ -0,0 +1,212 @@
+import { ACCESS_ERROR_MARKER } from "./markers.ts";
+import { walkPropertyTree } from "./query.ts";
+import type { PropertyTreeNode, PropertyTreeStats, PropertyType } from "./types.ts";
+
+// --- Constants ---
+
+/** The approximate size of an object's header, in bytes. */
+const OBJECT_OVERHEAD = 16;
+
+/** The approximate size of a reference to a value, e.g. a property or array slot, in bytes. */
+const SLOT_SIZE = 8;
+
+/** The number of branches listed in `PropertyTreeStats.largestSubtrees`. */
+const LARGEST_SUBTREE_COUNT = 10;
+
+/** The units used by `formatByteSize`, after bytes. */
+const SIZE_UNITS = ["KB", "MB", "GB", "TB"];
+
+// --- Size Estimates ---
+
+/**
+ * Counts the slots a node's children occupy in its value: one per child, or
+ * the number of children left out for elision nodes.
+ * @param node - The node.
+ * @returns The number of slots.
+ */
+function countSlots(node: PropertyTreeNode): number {
+	let slots = 0;
+	for (const child of node.children ?? []) {
+		slots += child.type === "elision" ? child.elidedCount ?? 0 : 1;
+	}
+	return slots;
+}
+
+/**
+ * Estimates the memory used by a node's own value, from what the tree records
+ * about it. Children are not included. References count as nothing, as their
+ * target is counted where it is expanded.
+ * @param node - The node.
+ * @returns The estimated size, in bytes.
+ */
+function estimateNodeSize(node: PropertyTreeNode): number {
+	if (node.reference) {
+		return 0;
+	}
+	switch (node.type) {
+		case "string":
+			return OBJECT_OVERHEAD + 2 * String(node.value).length;
+		case "regexp":
+			return OBJECT_OVERHEAD + SLOT_SIZE + 2 * String(node.value).length;
+		case "number":
+		case "boolean":
+		case "symbol":
+			return SLOT_SIZE;
+		case "bigint":
+			return OBJECT_OVERHEAD +
+				SLOT_SIZE * Math.ceil((node.value as bigint).toString(16).length / 16);
+		case "map":
+			// Each entry holds its key and its value.
+			return OBJECT_OVERHEAD + 2 * SLOT_SIZE * countSlots(node);
+		case "object":
+		case "array":
+		case "set":
+		case "typedarray":
+			return OBJECT_OVERHEAD + SLOT_SIZE * countSlots(node);
+		case "date":
+		case "function":
+		case "promise":
+		case "weakmap":
+		case "weakset":
+		case "weakref":
+		case "arraybuffer":
+		case "dataview":
+			return OBJECT_OVERHEAD;
+		default:
+			// Placeholders (undefined, null, accessors, errors, redacted values and
+			// elisions) hold nothing of their own.
+			return 0;
+	}
+}
+
+/**
+ * Measures the memory used by a value itself, for the types whose size the tree
+ * can't fully record: collections and binary data, whose contents may not all
+ * be shown. Typed arrays include their elements.
+ * @param value - The value.
+ * @param type - The value's `PropertyType`.
+ * @returns The estimated size in bytes, or `undefined` to estimate it from the tree.
+ */
+export function measureValueSize(value: unknown, type: PropertyType): number | undefined {
+	try {
+		switch (type) {
+			case "array":
+				return OBJECT_OVERHEAD + SLOT_SIZE * (value as unknown[]).length;
+			case "map":
+				return OBJECT_OVERHEAD + 2 * SLOT_SIZE * (value as Map<unknown, unknown>).size;
+			case "set":
+				return OBJECT_OVERHEAD + SLOT_SIZE * (value as Set<unknown>).size;
+			case "typedarray":
+			case "dataview":
+				return OBJECT_OVERHEAD + (value as ArrayBufferView).byteLength;
+			case "arraybuffer":
+				return OBJECT_OVERHEAD + (value as ArrayBuffer).byteLength;
+			default:
+				return undefined;
+		}
+	} catch {
+		// Detached buffers, revoked proxies and the like; fall back to the tree.
+		return undefined;
+	}
+}
+
+/**
+ * Estimates the size of every subtree of a tree, in bytes: the node's own value
+ * plus everything below it. Nodes with a `size` keep it as is.
+ * @param tree - The root node of the tree.
+ * @param measured - The sizes measured from the nodes' values while building
+ * the tree (see `measureValueSize`), used in place of estimates.
+ * @returns The size of each node's subtree.
+ */
+export function getSubtreeSizes(
+	tree: PropertyTreeNode,
+	measured?: ReadonlyMap<PropertyTreeNode, number>,
+): Map<PropertyTreeNode, number> {
+	const sizes = new Map<PropertyTreeNode, number>();
+	walkPropertyTree(tree, {
+		leave: (node) => {
+			if (node.size !== undefined) {
+				sizes.set(node, node.size);
+				return;
+			}
+			const ownSize = measured?.get(node);
+			let size = ownSize ?? estimateNodeSize(node);
+			// A measured typed array already includes its elements.
+			if (ownSize === undefined || node.type !== "typedarray") {
+				for (const child of node.children ?? []) {
+					size += sizes.get(child) ?? 0;
+				}
+			}
+			sizes.set(node, size);
+		},
+	});
+	return sizes;
+}
+
+/**
+ * Formats a size in bytes for display, e.g. `512 B` or `1.5 MB`.
+ * @param bytes - The size, in bytes.
+ * @returns The formatted size.
+ */
+export function formatByteSize(bytes: number): string {
+	if (bytes < 1024) {
+		return `${bytes} B`;
+	}
+	let size = bytes / 1024;
+	let unit = 0;
+	while (size >= 1024 && unit < SIZE_UNITS.length - 1) {
+		size /= 1024;
+		unit++;
+	}
+	return `${size.toFixed(1)} ${SIZE_UNITS[unit]}`;
+}
+
+// --- Statistics ---
+
+/**
+ * Summarizes a property tree: how many nodes of each type it has, how deep it
+ * goes, how many circular references and access errors it contains, and
+ * roughly how much memory its values retain, with the largest subtrees.
+ *
+ * Sizes are rough estimates, based on string lengths, collection sizes and
+ * typed array byte lengths. For trees built with `collectStats`, the sizes
+ * measured from the values are used (see `PropertyTreeNode.size`); otherwise
+ * they are estimated from the tree alone, which can't see the full length of
+ * truncated collections or the contents of binary data.
+ *
+ * ```ts
+ * const { approximateSize, largestSubtrees } = summarizePropertyTree(tree);
+ * ```
+ *
+ * @param tree - The root node of the tree to summarize.
+ * @returns The tree's statistics.
+ */
+export function summarizePropertyTree(tree: PropertyTreeNode): PropertyTreeStats {
+	const sizes = getSubtreeSizes(tree);
+	const stats: PropertyTreeStats = {
+		nodeCount: 0,
+		typeCounts: {},
+		maxDepth: 0,
+		circularCount: 0,
+		accessErrorCount: 0,
+		approximateSize: sizes.get(tree) ?? 0,
+		largestSubtrees: [],
+	};
+	const subtrees: PropertyTreeNode[] = [];
+
+	walkPropertyTree(tree, (node, { depth }) => {
+		stats.nodeCount++;
+		stats.typeCounts[node.type] = (stats.typeCounts[node.type] ?? 0) + 1;
+		stats.maxDepth = Math.max(stats.maxDepth, depth);
+		if (node.reference?.kind === "circular") stats.circularCount++;
+		if (node.value === ACCESS_ERROR_MARKER) stats.accessErrorCount++;
+		if (node !== tree && !node.reference) subtrees.push(node);
+	});
+
+	stats.largestSubtrees = subtrees
+		.map((node) => ({ path: node.jsPath ?? node.name, size: sizes.get(node) ?? 0 }))
+		.filter(({ size }) => size > 0)
+		.sort((a, b) => b.size - a.size)
+		.slice(0, LARGEST_SUBTREE_COUNT);
+	return stats;
+}
@@ -0,0 +1,99 @@
+import { formatNodeLines } from "./format.ts";
+import { type FormatOptions, resolveFormatOptions } from "./options.ts";
+import type { PropertyTreeNode } from "./types.ts";
+
+// --- Constants ---
+
+/** The approximate size in characters of the chunks written by `writePropertyTree`. */
+const WRITE_CHUNK_SIZE = 64 * 1024;
+
+// --- Streaming ---
+
+/**
+ * Formats a property tree line by line, like `formatPropertyTreeToString`
+ * without joining the lines. Lines are produced lazily as the generator is
+ * consumed, so output can start before the whole tree has been formatted, and
+ * trees of any depth can be formatted without exhausting the call stack.
+ *
+ * ```ts
+ * for (const line of formatPropertyTreeLines(tree)) {
+ *   console.log(line);
+ * }
+ * ```
+ *
+ * @param tree - The root node of the tree to format.
+ * @param options - Options controlling the output. See `FormatOptions`.
+ * @returns A generator of the output lines, without line breaks.
+ */
+export function formatPropertyTreeLines(
+	tree: PropertyTreeNode,
+	options?: FormatOptions,
+): Generator<string, void, undefined> {
+	return formatNodeLines(tree, resolveFormatOptions(options), "", true);
+}
+
+/**
+ * Writes a formatted property tree to a stream or file, a chunk at a time, so
+ * large trees never need to be held in memory as a single string. Each line is
+ * followed by a line break.
+ *
+ * A `WritableStream` is left open for further writes; a file at the given path
+ * is created or overwritten, and closed when done. Writing to a file needs
+ * `node:fs/promises` (in Deno, Node.js or Bun), which is only loaded then.
+ *
+ * @param tree - The root node of the tree to write.
+ * @param destination - A `WritableStream` of bytes, or the path of a file.
+ * @param options - Options controlling the output. See `FormatOptions`.
+ * @returns A Promise that resolves once everything has been written.
+ */
+export async function writePropertyTree(
+	tree: PropertyTreeNode,
+	destination: WritableStream<Uint8Array> | string | URL,
+	options?: FormatOptions,
+): Promise<void> {
+	const chunks = chunkLines(formatPropertyTreeLines(tree, options));
+	if (destination instanceof WritableStream) {
+		const encoder = new TextEncoder();
+		const writer = destination.getWriter();
+		try {
+			for (const chunk of chunks) {
+				await writer.ready;
+				await writer.write(encoder.encode(chunk));
+			}
+		} finally {
+			writer.releaseLock();
+		}
+		return;
+	}
+
+	// Imported on demand, so the module also loads where there's no file system.
+	const { open } = await import("node:fs/promises");
+	const file = await open(destination, "w");
+	try {
+		for (const chunk of chunks) {
+			await file.write(chunk);
+		}
+	} finally {
+		await file.close();
+	}
+}
+
+/**
+ * Groups lines into chunks of roughly `WRITE_CHUNK_SIZE` characters, each line
+ * followed by a line break.
+ * @param lines - The lines to group.
+ * @returns A generator of the chunks.
+ */
+function* chunkLines(lines: Iterable<string>): Generator<string, void, undefined> {
+	let chunk = "";
+	for (const line of lines) {
+		chunk += line + "\n";
+		if (chunk.length >= WRITE_CHUNK_SIZE) {
+			yield chunk;
+			chunk = "";
+		}
+	}
+	if (chunk.length > 0) {
+		yield chunk;
+	}
+}
@@ -0,0 +1,195 @@
+import { InvalidDepthError } from "./errors.ts";
+import { formatNodeName } from "./format.ts";
+import type { KeyOrder } from "./options.ts";
+import { orderChildren } from "./ordering.ts";
+import { walkPropertyTree, type WalkContext } from "./query.ts";
+import type { PropertyTreeNode } from "./types.ts";
+
+// --- Internal Helper Functions ---
+
+/**
+ * Copies the nodes of a tree for which `keep` returns `true`, top-down, leaving
+ * the original tree untouched. Nodes that aren't kept are left out along with
+ * their descendants; the root is always kept.
+ * @param tree - The root node of the tree.
+ * @param keep - Decides whether a node is kept, and whether its children are:
+ * `true` keeps both, `"leaf"` keeps the node without its children, and `false`
+ * leaves the node out.
+ * @returns The root of the copy.
+ */
+function copyTree(
+	tree: PropertyTreeNode,
+	keep: (node: PropertyTreeNode, context: WalkContext) => boolean | "leaf",
+): PropertyTreeNode {
+	const copies = new Map<PropertyTreeNode, PropertyTreeNode>();
+	walkPropertyTree(tree, (node, context) => {
+		const decision = keep(node, context);
+		if (context.parent && decision === false) {
+			return false;
+		}
+		const copy = { ...node };
+		if (decision === "leaf") {
+			delete copy.children;
+		} else if (node.children) {
+			copy.children = [];
+		}
+		copies.set(node, copy);
+		if (context.parent) {
+			copies.get(context.parent)?.children?.push(copy);
+		}
+		return decision !== "leaf";
+	});
+	return copies.get(tree) ?? { ...tree };
+}
+
+/**
+ * Joins the names of a node and its only child for `collapseSingleChildChains`,
+ * as in a property access: `a.b`, `a[0]` or `a[Symbol(b)]`.
+ * @param parent - The parent node.
+ * @param child - The child node.
+ * @returns The combined name.
+ */
+function joinNames(parent: PropertyTreeNode, child: PropertyTreeNode): string {
+	const childName = formatNodeName(child);
+	const separator = childName.startsWith("[") ? "" : ".";
+	return formatNodeName(parent) + separator + childName;
+}
+
+// --- Public API Functions ---
+
+/**
+ * Transforms every node of a property tree, returning a new tree. Nodes are
+ * transformed bottom-up: the mapper receives a shallow copy of each node whose
+ * `children` have already been transformed, and returns the node to use in its
+ * place (the copy itself, modified or not, or a new node). The original tree is
+ * left untouched.
+ *
+ * ```ts
+ * const upper = mapPropertyTree(tree, (node) => ({ ...node, name: node.name.toUpperCase() }));
+ * ```
+ *
+ * @param tree - The root node of the tree to transform.
+ * @param mapper - Called for each node, with its position in the original tree.
+ * @returns The root of the transformed tree.
+ */
+export function mapPropertyTree(
+	tree: PropertyTreeNode,
+	mapper: (node: PropertyTreeNode, context: WalkContext) => PropertyTreeNode,
+): PropertyTreeNode {
+	const mapped = new Map<PropertyTreeNode, PropertyTreeNode>();
+	walkPropertyTree(tree, {
+		leave: (node, context) => {
+			const copy = { ...node };
+			if (node.children) {
+				copy.children = node.children.map((child) => mapped.get(child) ?? child);
+			}
+			mapped.set(node, mapper(copy, context));
+		},
+	});
+	return mapped.get(tree) ?? tree;
+}
+
+/**
+ * Returns a copy of a property tree without the nodes that fail a predicate,
+ * or their descendants. The root is always kept, and the original tree is left
+ * untouched.
+ *
+ * ```ts
+ * const withoutFunctions = filterPropertyTree(tree, (node) => node.type !== "function");
+ * ```
+ *
+ * @param tree - The root node of the tree to filter.
+ * @param predicate - Called for each node below the root; return `false` to
+ * leave the node out. Not called for the descendants of nodes left out.
+ * @returns The root of the filtered tree.
+ */
+export function filterPropertyTree(
+	tree: PropertyTreeNode,
+	predicate: (node: PropertyTreeNode, context: WalkContext) => boolean,
+): PropertyTreeNode {
+	return copyTree(tree, (node, context) => !context.parent || predicate(node, context));
+}
+
+/**
+ * Returns a copy of a property tree cut off below a depth, as if it had been
+ * built with that `maxDepth`: nodes at the depth keep no children. The original
+ * tree is left untouched.
+ *
+ * ```ts
+ * const overview = prunePropertyTree(tree, 1); // The root and its children
+ * ```
+ *
+ * @param tree - The root node of the tree to prune.
+ * @param depth - The depth of the deepest nodes to keep, where the root is at
+ * depth 0. Must be a non-negative integer.
+ * @returns The root of the pruned tree.
+ * @throws {InvalidDepthError} If `depth` is negative or not an integer.
+ */
+export function prunePropertyTree(tree: PropertyTreeNode, depth: number): PropertyTreeNode {
+	if (depth < 0 || !Number.isInteger(depth)) {
+		throw new InvalidDepthError(depth);
+	}
+	return copyTree(tree, (_node, context) => context.depth < depth || "leaf");
+}
+
+/**
+ * Returns a copy of a property tree with the properties of each object in the
+ * given order (see `KeyOrder`). Array elements, Map entries and elision nodes
+ * keep their position. The original tree is left untouched.
+ *
+ * ```ts
+ * const sorted = sortPropertyTree(tree, "natural");
+ * ```
+ *
+ * @param tree - The root node of the tree to sort.
+ * @param order - The order to apply.
+ * @returns The root of the sorted tree, or the tree itself for `"insertion"`.
+ */
+export function sortPropertyTree(tree: PropertyTreeNode, order: KeyOrder): PropertyTreeNode {
+	if (order === "insertion") {
+		return tree;
+	}
+	return mapPropertyTree(tree, (node) => {
+		if (node.children) {
+			node.children = orderChildren(node, order);
+		}
+		return node;
+	});
+}
+
+/**
+ * Returns a copy of a property tree where chains of nodes with a single,
+ * expanded child are merged into one node, named after the whole chain, like
+ * the compact folders of a file explorer:
+ *
+ * ```text
+ * └─ root (object)                     └─ root (object)
+ *    └─ config (object)                   └─ config.server.tls (object)
+ *       └─ server (object)        →          ├─ cert (string): "a.pem"
+ *          └─ tls (object)                   └─ key (string): "b.pem"
+ *             ├─ cert (string): "a.pem"
+ *             └─ key (string): "b.pem"
+ * ```
+ *
+ * The merged node is the last node of the chain, renamed; the details of the
+ * nodes above it (such as their types) are dropped. The root is never merged,
+ * and neither are nodes with a value, such as a marker. The original tree is
+ * left untouched.
+ *
+ * @param tree - The root node of the tree to collapse.
+ * @returns The root of the collapsed tree.
+ */
+export function collapseSingleChildChains(tree: PropertyTreeNode): PropertyTreeNode {
+	return mapPropertyTree(tree, (node, { parent }) => {
+		const child = node.children?.length === 1 ? node.children[0] : undefined;
+		if (
+			!parent || !child || !child.children || child.type === "elision" ||
+			Object.hasOwn(node, "value")
+		) {
+			return node;
+		}
+		const merged: PropertyTreeNode = { ...child, name: joinNames(node, child) };
+		delete merged.isSymbolKey;
+		return merged;
+	});
+}
@@ -0,0 +1,333 @@
+// --- Core Types & Interfaces ---
+
+/**
+ * Represents the different types of values encountered during object traversal.
+ */
+export type PropertyType =
+	| "object"
+	| "array"
+	| "string"
+	| "number"
+	| "boolean"
+	| "function"
+	| "symbol"
+	| "bigint"
+	| "undefined"
+	| "null"
+	| "map"
+	| "set"
+	| "weakmap"
+	| "weakset"
+	| "weakref"
+	| "date"
+	| "regexp"
+	| "promise"
+	| "typedarray" // Any typed array view, e.g. Uint8Array
+	| "arraybuffer" // ArrayBuffer or SharedArrayBuffer
+	| "dataview"
+	| "accessor" // Special type for accessor properties that were not invoked
+	| "error" // Special type for access errors
+	| "redacted" // Special type for values hidden by a redaction pattern, which are never read
+	| "elision"; // Special type for nodes standing in for children left out by a child limit, or array holes
+
+/**
+ * Represents a node within the property tree. Each node corresponds to a property
+ * or an array element in the original object structure.
+ */
+export interface PropertyTreeNode {
+	/**
+	 * The name of the property or array index (as a string, e.g., "[0]").
+	 * For the root node, this is typically "root".
+	 */
+	name: string;
+
+	/** The type of the property's value, determined by `getPropertyType`. */
+	type: PropertyType;
+
+	/**
+	 * The actual value of the property if it's a primitive, null, undefined,
+	 * or a special marker (like circular reference/access error).
+	 * Dates and regular expressions hold their string representation.
+	 * Should not be present on other object types or functions, unless it's a special marker.
+	 */
+	value?: unknown;
+
+	/**
+	 * A description of the error behind an `[Access Error]` or `[Rejected]`
+	 * marker, with its name and message, e.g. `TypeError: not allowed`. Shown
+	 * after the marker.
+	 */
+	error?: string;
+
+	/**
+	 * The stack trace of the error behind an `[Access Error]` or `[Rejected]`
+	 * marker, if it has one. Only set when `errorStacks` is enabled.
+	 */
+	errorStack?: string;
+
+	/**
+	 * Set on nodes built from the fulfilled value of a Promise by
+	 * `buildPropertyTreeAsync`.
+	 */
+	awaited?: boolean;
+
+	/**
+	 * A one-line description of the value supplied by an inspect hook or type
+	 * handler (see `InspectResult.summary`), shown in place of a value.
+	 */
+	summary?: string;
+
+	/**
+	 * Child nodes representing properties of an object, elements of an array or
+	 * typed array, entries of a Map, or members of a Set.
+	 * Only present for expandable types that are expanded.
+	 */
+	children?: PropertyTreeNode[];
+
+	/**
+	 * The path from the root to this node, one segment per level. Empty for the root.
+	 * Set on every node created by `buildPropertyTree`, except elision nodes.
+	 */
+	path?: PathSegment[];
+
+	/**
+	 * The path rendered as a JavaScript property access starting from the root's
+	 * name, e.g. `root.user.roles[1]`.
+	 */
+	jsPath?: string;
+
+	/**
+	 * The path rendered as a JSON Pointer (RFC 6901), e.g. `/user/roles/1`.
+	 * Empty for the root.
+	 */
+	jsonPointer?: string;
+
+	/** `true` if the property key is a symbol. Only set when `includeSymbols` is enabled. */
+	isSymbolKey?: boolean;
+
+	/** `true` if the property is non-enumerable. Only set when `includeNonEnumerable` is enabled. */
+	isNonEnumerable?: boolean;
+
+	/**
+	 * `true` if the property was found on the prototype chain rather than on the
+	 * object itself. Only set when `includeInherited` is enabled.
+	 */
+	isInherited?: boolean;
+
+	/**
+	 * The name of the object's constructor, taken from its prototype. Only set when
+	 * it differs from the built-in constructor implied by `type` (e.g. a class
+	 * instance, or a `Map` subclass), and always set for typed arrays.
+	 */
+	className?: string;
+
+	/** `true` if the object was created with a `null` prototype, e.g. `Object.create(null)`. */
+	hasNullPrototype?: boolean;
+
+	/** Describes the function, for nodes of type `"function"`. */
+	functionInfo?: FunctionInfo;
+
+	/**
+	 * The attributes of the property's descriptor. Only present on nodes for
+	 * object properties (not array elements, Map entries, Set members or the root).
+	 */
+	descriptor?: PropertyDescriptorInfo;
+
+	/**
+	 * Describes the object this node refers back to, for nodes whose value is the
+	 * `[Circular Reference]` or `[Shared Reference]` marker.
+	 */
+	reference?: ReferenceInfo;
+
+	/**
+	 * The number of children left out in place of this node, or of holes it
+	 * stands for. Only present on nodes of type `"elision"` (see
+	 * `BuildOptions.maxChildren`).
+	 */
+	elidedCount?: number;
+
+	/**
+	 * `true` for elision nodes standing in for a run of holes in a sparse array,
+	 * e.g. `<3 empty items>`, rather than for children left out by a limit.
+	 */
+	isHole?: boolean;
+
+	/**
+	 * Reports that traversal stopped early because a budget ran out. Only set
+	 * on the root node (see `BuildOptions.maxNodes` and `BuildOptions.maxTimeMs`).
+	 */
+	truncation?: TruncationInfo;
+
+	/**
+	 * The approximate size of the node's value and everything shown below it, in
+	 * bytes. Only set by `buildPropertyTree` when `collectStats` is enabled.
+	 */
+	size?: number;
+
+	/**
+	 * A summary of the whole tree (see `summarizePropertyTree`). Only set on the
+	 * root node, when `collectStats` is enabled.
+	 */
+	stats?: PropertyTreeStats;
+
+	/**
+	 * The reference id of an expanded object that other nodes refer back to.
+	 * Only assigned when `references` is `"dedupe"`.
+	 */
+	refId?: number;
+}
+
+/**
+ * The kinds of function recorded in `FunctionInfo.kind`. Methods and
+ * `function` declarations and expressions are `"regular"`; async arrow
+ * functions are `"async"`. Built-in functions are `"native"`, and functions
+ * created with `Function.prototype.bind` are `"bound"`.
+ */
+export type FunctionKind =
+	| "regular"
+	| "arrow"
+	| "async"
+	| "generator"
+	| "async generator"
+	| "class"
+	| "bound"
+	| "native";
+
+/**
+ * Describes a function, recorded on function nodes in `functionInfo`.
+ */
+export interface FunctionInfo {
+	/** The function's `name`, or an empty string for anonymous functions. */
+	name: string;
+
+	/** The number of declared parameters, as given by the function's `length`. */
+	arity: number;
+
+	/** What kind of function it is. */
+	kind: FunctionKind;
+
+	/**
+	 * The start of the function's source code on one line, with whitespace
+	 * collapsed, e.g. `async (req, res) => { await…`. Only set when
+	 * `functionSourceLength` is given, and never for native or bound functions.
+	 */
+	source?: string;
+}
+
+/**
+ * Describes why and where `buildPropertyTree` stopped early.
+ */
+export interface TruncationInfo {
+	/** The budget that ran out. */
+	reason: "maxNodes" | "maxTimeMs";
+
+	/** The number of nodes in the tree, including the root. */
+	nodeCount: number;
+
+	/** The time spent building the tree, in milliseconds. */
+	elapsedMs: number;
+
+	/** The number of nodes marked `[Truncated]`, whose children are missing or incomplete. */
+	truncatedCount: number;
+}
+
+/**
+ * Summarizes the contents of a property tree, as returned by `summarizePropertyTree`.
+ */
+export interface PropertyTreeStats {
+	/** The number of nodes in the tree, including the root. */
+	nodeCount: number;
+
+	/** The number of nodes of each type. Types that don't occur are left out. */
+	typeCounts: Partial<Record<PropertyType, number>>;
+
+	/** The depth of the deepest node, counting the root as depth 0. */
+	maxDepth: number;
+
+	/** The number of `[Circular Reference]` nodes. */
+	circularCount: number;
+
+	/** The number of `[Access Error]` nodes. */
+	accessErrorCount: number;
+
+	/**
+	 * A rough estimate of the memory retained by the values in the tree, in
+	 * bytes. Only what the tree shows is counted, so values beyond `maxDepth`
+	 * or left out by a limit contribute little.
+	 */
+	approximateSize: number;
+
+	/**
+	 * The largest subtrees below the root, largest first, to show where the size
+	 * comes from. Subtrees nest, so a large value can be listed along with its
+	 * ancestors. At most 10 are listed.
+	 */
+	largestSubtrees: SubtreeSize[];
+}
+
+/**
+ * The approximate size of a subtree of a property tree.
+ */
+export interface SubtreeSize {
+	/** The path to the subtree, rendered as a JavaScript property access, e.g. `root.cache`. */
+	path: string;
+
+	/** The approximate size of the subtree, in bytes. */
+	size: number;
+}
+
+/**
+ * Describes the target of a circular or shared reference.
+ */
+export interface ReferenceInfo {
+	/**
+	 * `"circular"` if the target is an ancestor of the referring node, or
+	 * `"shared"` if it was expanded in another branch of the tree.
+	 */
+	kind: "circular" | "shared";
+
+	/**
+	 * The `refId` of the target node. Only assigned when `references` is `"dedupe"`.
+	 */
+	id?: number;
+
+	/** The path to the target node, rendered as a JavaScript property access, e.g. `root.user`. */
+	path: string;
+}
+
+/**
+ * A single step in the path from the root to a node: a property key, an
+ * array, Set or typed array index, or a Map key.
+ */
+export type PathSegment = string | symbol | number | MapKeySegment;
+
+/**
+ * A path segment for a Map entry, holding the entry's key.
+ */
+export interface MapKeySegment {
+	/** The key of the Map entry. */
+	mapKey: unknown;
+}
+
+/**
+ * The attributes of a property descriptor, recorded on property nodes.
+ */
+export interface PropertyDescriptorInfo {
+	/** Whether the property is a data property or an accessor (getter/setter) property. */
+	kind: "data" | "accessor";
+
+	/** Whether the property's value can be changed. Only present for data properties. */
+	writable?: boolean;
+
+	/** Whether the property shows up during enumeration. */
+	enumerable: boolean;
+
+	/** Whether the property can be deleted or have its attributes changed. */
+	configurable: boolean;
+
+	/** Whether the accessor has a getter. Only present for accessor properties. */
+	hasGetter?: boolean;
+
+	/** Whether the accessor has a setter. Only present for accessor properties. */
+	hasSetter?: boolean;
+}
@@ -0,0 +1,61 @@
+/**
+ * This module contains test helpers for snapshotting the shape of objects as
+ * property trees, built on `@std/testing/snapshot`.
+ *
+ * ```ts
+ * import { assertPropertyTreeSnapshot } from "@adamj/object-property-tree/testing";
+ *
+ * Deno.test("state", async (t) => {
+ *   await assertPropertyTreeSnapshot(t, store.getState(), { maxDepth: 4 });
+ * });
+ * ```
+ *
+ * @module
+ */
+
+import { assertSnapshot, type SnapshotOptions } from "@std/testing/snapshot";
+import { buildPropertyTree, formatPropertyTreeToString, type LogOptions } from "./mod.ts";
+
+/**
+ * Options for `assertPropertyTreeSnapshot`: the `BuildOptions` and
+ * `FormatOptions` used to render the value, and the snapshot's `name`, `msg`,
+ * `dir` and `path` (see `SnapshotOptions` in `@std/testing/snapshot`).
+ */
+export interface PropertyTreeSnapshotOptions
+	extends LogOptions, Pick<SnapshotOptions<string>, "dir" | "msg" | "name" | "path"> {}
+
+/**
+ * Asserts that the formatted property tree of a value matches the snapshot
+ * stored for the current test, like `assertSnapshot`. Run the tests with
+ * `--update` (`deno test --allow-all -- --update`) to create or update
+ * snapshots.
+ *
+ * The tree is built with `deterministic: true` (unless set to `false`), so
+ * the snapshot doesn't depend on key insertion order, reference numbering or
+ * unique symbols, and formatted without colors. The snapshot file holds the
+ * formatted tree as is, for readable diffs.
+ *
+ * @param t - The context of the current test.
+ * @param value - The value to snapshot.
+ * @param options - Options controlling the tree and the snapshot.
+ * @returns A Promise that resolves once the snapshot has been checked.
+ * @throws {InvalidDepthError} If `maxDepth` is invalid.
+ */
+export async function assertPropertyTreeSnapshot(
+	t: Deno.TestContext,
+	value: unknown,
+	options: PropertyTreeSnapshotOptions = {},
+): Promise<void> {
+	const { dir, msg, name, path, ...treeOptions } = options;
+	const tree = buildPropertyTree(value, {
+		...treeOptions,
+		deterministic: treeOptions.deterministic ?? true,
+	});
+	await assertSnapshot(t, formatPropertyTreeToString(tree, treeOptions), {
+		dir,
+		msg,
+		name,
+		path,
+		serializer: (text) => text,
+	});
+}
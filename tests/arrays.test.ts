@@ -0,0 +1,137 @@
+import { assertEquals } from "jsr:@std/assert";
+import { describe, it } from "jsr:@std/testing/bdd";
+import {
+	buildPropertyTree,
+	formatPropertyTreeToString,
+	parsePropertyTree,
+	serializePropertyTree,
+	summarizePropertyTree,
+} from "../mod.ts";
+
+describe("sparse arrays", () => {
+	it("should collapse holes, unlike undefined elements", () => {
+		// deno-lint-ignore no-sparse-arrays
+		const tree = buildPropertyTree([1, , undefined, , , 3]);
+		assertEquals(
+			formatPropertyTreeToString(tree),
+			`
+└─ root (array)
+   ├─ [0] (number): 1
+   ├─ <1 empty item>
+   ├─ [2] (undefined): undefined
+   ├─ <2 empty items>
+   └─ [5] (number): 3
+`.trim(),
+		);
+		assertEquals(tree.children?.[1], {
+			name: "<1 empty item>",
+			type: "elision",
+			elidedCount: 1,
+			isHole: true,
+		});
+	});
+
+	it("should handle huge arrays of holes without visiting each index", () => {
+		const array: string[] = [];
+		array[2 ** 32 - 2] = "last";
+		assertEquals(
+			formatPropertyTreeToString(buildPropertyTree({ empty: new Array(1e6), array })),
+			`
+└─ root (object)
+   ├─ empty (array)
+   │  └─ <1,000,000 empty items>
+   └─ array (array)
+      ├─ <4,294,967,294 empty items>
+      └─ [4294967294] (string): "last"
+`.trim(),
+		);
+	});
+
+	it("should combine holes with child limits", () => {
+		const array = new Array(10);
+		array[0] = 0;
+		array[9] = 9;
+		assertEquals(
+			formatPropertyTreeToString(
+				buildPropertyTree(array, { maxArrayItems: { head: 3, tail: 2 } }),
+			),
+			`
+└─ root (array)
+   ├─ [0] (number): 0
+   ├─ <2 empty items>
+   ├─ … 5 more items
+   ├─ <1 empty item>
+   └─ [9] (number): 9
+`.trim(),
+		);
+	});
+
+	it("should count holes and elisions towards maxNodes", () => {
+		const array = new Array(10);
+		array[0] = 0;
+		array[9] = 9;
+		for (let maxNodes = 1; maxNodes <= 6; maxNodes++) {
+			const tree = buildPropertyTree(
+				{ array },
+				{ maxArrayItems: { head: 3, tail: 2 }, maxNodes },
+			);
+			const { nodeCount } = summarizePropertyTree(tree);
+			assertEquals(nodeCount, maxNodes);
+			assertEquals(tree.truncation?.nodeCount, nodeCount);
+		}
+	});
+
+	it("should count holes towards the array's size", () => {
+		assertEquals(summarizePropertyTree(buildPropertyTree(new Array(100))).approximateSize, 816);
+	});
+
+	it("should survive serialization", () => {
+		// deno-lint-ignore no-sparse-arrays
+		const tree = buildPropertyTree([, "a", , ,]);
+		assertEquals(parsePropertyTree(serializePropertyTree(tree)), tree);
+	});
+});
+
+describe("named array properties", () => {
+	it("should follow the elements", () => {
+		const match = /(?<word>b+)/.exec("abbc");
+		assertEquals(
+			formatPropertyTreeToString(buildPropertyTree(match)),
+			`
+└─ root (array)
+   ├─ [0] (string): "bb"
+   ├─ [1] (string): "bb"
+   ├─ index (number): 1
+   ├─ input (string): "abbc"
+   └─ groups (object [null prototype])
+      └─ word (string): "bb"
+`.trim(),
+		);
+	});
+
+	it("should be limited like object properties", () => {
+		const array = Object.assign([1, 2, 3], { a: 1, b: 2, c: 3 });
+		assertEquals(
+			formatPropertyTreeToString(buildPropertyTree(array, { maxArrayItems: 1, maxChildren: 2 })),
+			`
+└─ root (array)
+   ├─ [0] (number): 1
+   ├─ … 2 more items
+   ├─ a (number): 1
+   ├─ b (number): 2
+   └─ … 1 more property
+`.trim(),
+		);
+	});
+
+	it("should include symbol and non-enumerable properties when asked", () => {
+		const array = Object.assign(["x"], { [Symbol.for("tag")]: "t" });
+		const tree = buildPropertyTree(array, { includeSymbols: true, includeNonEnumerable: true });
+		assertEquals(tree.children?.map((child) => child.name), [
+			"[0]",
+			"length",
+			"Symbol(tag)",
+		]);
+		assertEquals(tree.children?.[1].jsPath, "root.length");
+	});
+});
@@ -0,0 +1,252 @@
+import { assertEquals, assertRejects } from "jsr:@std/assert";
+import { describe, it } from "jsr:@std/testing/bdd";
+import { assertSpyCallArg, assertSpyCalls, spy, stub } from "jsr:@std/testing/mock";
+import {
+	buildPropertyTree,
+	buildPropertyTreeAsync,
+	formatPropertyTreeToString,
+	getNodeAtPath,
+	InvalidDepthError,
+	logPropertyTreeAsync,
+	parsePropertyTree,
+	serializePropertyTree,
+} from "../mod.ts";
+
+const PENDING_MARKER = "[Pending]";
+const REJECTED_MARKER = "[Rejected]";
+const TIMED_OUT_MARKER = "[Timed Out]";
+
+/** Creates a Promise that never settles. */
+function never(): Promise<never> {
+	return new Promise(() => {});
+}
+
+describe("buildPropertyTreeAsync", () => {
+	it("should show fulfilled Promises as their value", async () => {
+		const obj = {
+			count: Promise.resolve(42),
+			user: Promise.resolve({ name: "Alice", roles: Promise.resolve(["admin"]) }),
+		};
+		const tree = await buildPropertyTreeAsync(obj, 4);
+		assertEquals(
+			formatPropertyTreeToString(tree),
+			`
+└─ root (object)
+   ├─ count (number) [awaited]: 42
+   └─ user (object) [awaited]
+      ├─ name (string): "Alice"
+      └─ roles (array) [awaited]
+         └─ [0] (string): "admin"
+`.trim(),
+		);
+	});
+
+	it("should await Promises returned by getters", async () => {
+		const obj = {
+			get data() {
+				return Promise.resolve("loaded");
+			},
+		};
+		const tree = await buildPropertyTreeAsync(obj);
+		assertEquals(tree.children?.[0].value, "loaded");
+		assertEquals(tree.children?.[0].awaited, true);
+	});
+
+	it("should mark rejected Promises with the error", async () => {
+		const tree = await buildPropertyTreeAsync({
+			failed: Promise.reject(new TypeError("connection refused")),
+		});
+		const node = tree.children?.[0];
+		assertEquals(node?.type, "promise");
+		assertEquals(node?.value, REJECTED_MARKER);
+		assertEquals(node?.error, "TypeError: connection refused");
+		assertEquals(
+			formatPropertyTreeToString(tree).split("\n")[1],
+			"   └─ failed (promise): [Rejected: TypeError: connection refused]",
+		);
+	});
+
+	it("should mark Promises that time out", async () => {
+		const tree = await buildPropertyTreeAsync(
+			{ slow: never(), fast: Promise.resolve(1) },
+			{ promiseTimeoutMs: 10 },
+		);
+		assertEquals(tree.children?.map((child) => child.value), [TIMED_OUT_MARKER, 1]);
+	});
+
+	it("should only resolve settled Promises with a timeout of 0", async () => {
+		const tree = await buildPropertyTreeAsync(
+			{ later: never(), now: Promise.resolve("ready") },
+			{ promiseTimeoutMs: 0 },
+		);
+		assertEquals(tree.children?.map((child) => child.value), [PENDING_MARKER, "ready"]);
+	});
+
+	it("should await a root Promise", async () => {
+		const tree = await buildPropertyTreeAsync(Promise.resolve({ a: 1 }));
+		assertEquals(tree.type, "object");
+		assertEquals(tree.awaited, true);
+		assertEquals(tree.children?.[0].value, 1);
+
+		const rejected = await buildPropertyTreeAsync(Promise.reject("nope"));
+		assertEquals(rejected.value, REJECTED_MARKER);
+		assertEquals(rejected.error, "nope");
+	});
+
+	it("should keep the positions of awaited children", async () => {
+		const tree = await buildPropertyTreeAsync([1, Promise.resolve(2), 3]);
+		assertEquals(tree.children?.map((child) => child.name), ["[0]", "[1]", "[2]"]);
+		assertEquals(tree.children?.map((child) => child.value), [1, 2, 3]);
+	});
+
+	it("should match buildPropertyTree for values without Promises", async () => {
+		const obj: Record<string, unknown> = { a: [1, { b: "c" }], m: new Map([["k", 1]]) };
+		obj.self = obj;
+		assertEquals(await buildPropertyTreeAsync(obj, 4), buildPropertyTree(obj, 4));
+	});
+
+	it("should detect cycles through awaited values", async () => {
+		const obj: Record<string, unknown> = {};
+		obj.again = Promise.resolve(obj);
+		const tree = await buildPropertyTreeAsync(obj);
+		assertEquals(getNodeAtPath(tree, "again")?.value, "[Circular Reference]");
+	});
+
+	it("should not await Promises beyond maxDepth", async () => {
+		const tree = await buildPropertyTreeAsync({ a: { b: Promise.resolve(1) } }, 1);
+		assertEquals(tree.children?.[0].children, undefined);
+	});
+
+	it("should read async iterables up to the limit", async () => {
+		async function* numbers() {
+			for (let i = 0; ; i++) yield i;
+		}
+		const tree = await buildPropertyTreeAsync(
+			{ short: numbers(), done: (async function* () { yield "only"; })() },
+			{ asyncIterableLimit: 2 },
+		);
+		assertEquals(
+			formatPropertyTreeToString(tree),
+			`
+└─ root (object)
+   ├─ short (object)
+   │  ├─ [0] (number): 0
+   │  ├─ [1] (number): 1
+   │  └─ … more items not read
+   └─ done (object)
+      └─ [0] (string): "only"
+`.trim(),
+		);
+	});
+
+	it("should keep the items read when closing the iterator throws", async () => {
+		const error = new Error("cannot close");
+		let count = 0;
+		const iterable: AsyncIterable<number> = {
+			[Symbol.asyncIterator]: () => ({
+				next: () => Promise.resolve({ done: false, value: count++ }),
+				return: () => {
+					throw error;
+				},
+			}),
+		};
+		const onError = spy();
+		const tree = await buildPropertyTreeAsync(
+			{ iterable },
+			{ asyncIterableLimit: 2, onError },
+		);
+		assertEquals(
+			formatPropertyTreeToString(tree),
+			`
+└─ root (object)
+   └─ iterable (object)
+      ├─ [0] (number): 0
+      ├─ [1] (number): 1
+      └─ … more items not read
+`.trim(),
+		);
+		assertSpyCalls(onError, 1);
+		assertSpyCallArg(onError, 0, 0, error);
+		assertSpyCallArg(onError, 0, 1, ["iterable"]);
+	});
+
+	it("should count Promises towards maxNodes", async () => {
+		const tree = await buildPropertyTreeAsync(
+			{ a: Promise.resolve(1), b: Promise.resolve(2), c: 3 },
+			{ maxNodes: 2 },
+		);
+		assertEquals(
+			formatPropertyTreeToString(tree),
+			`
+└─ root (object) [truncated: maxNodes]: [Truncated]
+   └─ a (promise): [Truncated]
+`.trim(),
+		);
+		assertEquals(tree.truncation?.nodeCount, 2);
+		assertEquals(tree.truncation?.truncatedCount, 2);
+	});
+
+	it("should stop reading async iterables once maxNodes is reached", async () => {
+		async function* numbers() {
+			for (let i = 0; ; i++) yield i;
+		}
+		const tree = await buildPropertyTreeAsync(
+			{ gen: numbers(), later: Promise.resolve({ x: 1 }) },
+			{ asyncIterableLimit: 5, maxNodes: 5 },
+		);
+		assertEquals(
+			formatPropertyTreeToString(tree),
+			`
+└─ root (object) [truncated: maxNodes]
+   ├─ gen (object): [Truncated]
+   │  ├─ [0] (number): 0
+   │  └─ [1] (number): 1
+   └─ later (object) [awaited]: [Truncated]
+`.trim(),
+		);
+		assertEquals(tree.truncation?.nodeCount, 5);
+	});
+
+	it("should show async iterables as objects by default", async () => {
+		async function* numbers() {
+			yield 1;
+		}
+		const tree = await buildPropertyTreeAsync({ gen: numbers() });
+		assertEquals(tree.children?.[0].children, []);
+	});
+
+	it("should round-trip the new markers through JSON", async () => {
+		const tree = await buildPropertyTreeAsync(
+			{ failed: Promise.reject(new Error("x")), slow: never() },
+			{ promiseTimeoutMs: 5 },
+		);
+		assertEquals(parsePropertyTree(serializePropertyTree(tree)), tree);
+	});
+
+	it("should reject invalid options", async () => {
+		await assertRejects(() => buildPropertyTreeAsync({}, -1), InvalidDepthError);
+		await assertRejects(
+			() => buildPropertyTreeAsync({}, { promiseTimeoutMs: -1 }),
+			RangeError,
+			"Invalid promiseTimeoutMs: -1",
+		);
+	});
+});
+
+describe("logPropertyTreeAsync", () => {
+	it("should log the awaited tree", async () => {
+		const logStub = stub(console, "log");
+		try {
+			await logPropertyTreeAsync({ a: Promise.resolve(1) }, { maxDepth: 2, colors: false });
+			assertSpyCalls(logStub, 1);
+			assertSpyCallArg(
+				logStub,
+				0,
+				0,
+				"└─ root (object)\n   └─ a (number) [awaited]: 1",
+			);
+		} finally {
+			logStub.restore();
+		}
+	});
+});
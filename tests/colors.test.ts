@@ -0,0 +1,181 @@
+import { assertEquals } from "jsr:@std/assert";
+import { describe, it } from "jsr:@std/testing/bdd";
+import { assertSpyCallArg, stub } from "jsr:@std/testing/mock";
+import {
+	buildPropertyTree,
+	type ColorTheme,
+	formatPropertyTreeToString,
+	LIGHT_COLOR_THEME,
+	logPropertyTree,
+	renderPropertyTree,
+} from "../mod.ts";
+import { shouldUseColor } from "../src/colors.ts";
+
+// deno-lint-ignore no-control-regex
+const stripAnsi = (text: string) => text.replace(/\x1b\[[\d;]*m/g, "");
+
+const createSampleObject = () => {
+	const obj: Record<string, unknown> = {
+		name: "Alice",
+		count: 1,
+		big: 2n,
+		flag: true,
+		none: null,
+		when: new Date(0),
+		get broken() {
+			throw new Error("nope");
+		},
+	};
+	obj.self = obj;
+	return obj;
+};
+
+describe("colorized formatting", () => {
+	it("should leave output unchanged by default", () => {
+		const tree = buildPropertyTree(createSampleObject(), 2);
+		const output = formatPropertyTreeToString(tree);
+		assertEquals(output, stripAnsi(output));
+		assertEquals(formatPropertyTreeToString(tree, { colors: false }), output);
+	});
+
+	it("should only add styling when colors are enabled", () => {
+		const tree = buildPropertyTree(createSampleObject(), 2);
+		const colored = formatPropertyTreeToString(tree, { colors: true });
+		assertEquals(stripAnsi(colored), formatPropertyTreeToString(tree));
+		assertEquals(
+			colored.split("\n")[1],
+			'\x1b[90m   ├─ \x1b[0m\x1b[1mname\x1b[0m \x1b[90m(string)\x1b[0m: \x1b[32m"Alice"\x1b[0m',
+		);
+	});
+
+	it("should style each value type and marker", () => {
+		const theme: ColorTheme = {
+			string: (text) => `<string>${text}`,
+			number: (text) => `<number>${text}`,
+			bigint: (text) => `<bigint>${text}`,
+			boolean: (text) => `<boolean>${text}`,
+			null: (text) => `<null>${text}`,
+			date: (text) => `<date>${text}`,
+			reference: (text) => `<reference>${text}`,
+			error: (text) => `<error>${text}`,
+		};
+		const tree = buildPropertyTree(createSampleObject(), 2);
+		const expected = `
+└─ root (object)
+   ├─ name (string): <string>"Alice"
+   ├─ count (number): <number>1
+   ├─ big (bigint): <bigint>2
+   ├─ flag (boolean): <boolean>true
+   ├─ none (null): <null>null
+   ├─ when (date): <date>1970-01-01T00:00:00.000Z
+   ├─ broken (error): <error>[Access Error: Error: nope]
+   └─ self (object): <reference>[Circular Reference]
+`.slice(1, -1);
+		assertEquals(formatPropertyTreeToString(tree, { colors: true, theme }), expected);
+	});
+
+	it("should style names, types, annotations and connectors", () => {
+		const theme: ColorTheme = {
+			name: (text) => `{${text}}`,
+			type: (text) => `<${text}>`,
+			annotations: (text) => `[[${text}]]`,
+			connector: (text) => text.replaceAll(" ", "."),
+			accessor: (text) => `!${text}`,
+		};
+		const obj = {};
+		Object.defineProperty(obj, "hidden", {
+			get: () => 1,
+			enumerable: false,
+		});
+		const tree = buildPropertyTree(obj, {
+			maxDepth: 1,
+			includeNonEnumerable: true,
+			accessors: "skip",
+		});
+		assertEquals(
+			formatPropertyTreeToString(tree, { colors: true, theme }),
+			"└─.{root} <(object)>\n...└─.{hidden} <(accessor)> [[[non-enumerable]]]: ![Getter]",
+		);
+	});
+
+	it("should use the light theme", () => {
+		const tree = buildPropertyTree(1, 0);
+		assertEquals(
+			formatPropertyTreeToString(tree, { colors: true, theme: "light" }),
+			LIGHT_COLOR_THEME.connector!("└─ ") + LIGHT_COLOR_THEME.name!("root") + " " +
+				LIGHT_COLOR_THEME.type!("(number)") + ": " + LIGHT_COLOR_THEME.number!("1"),
+		);
+	});
+
+	it("should never colorize non-terminal renderers", () => {
+		const tree = buildPropertyTree({ a: 1 }, 1);
+		assertEquals(
+			renderPropertyTree(tree, "markdown", { colors: true }),
+			renderPropertyTree(tree, "markdown"),
+		);
+	});
+});
+
+describe("shouldUseColor", () => {
+	it("should use color for Deno terminals unless NO_COLOR is set", () => {
+		const deno = (noColor: boolean, isTerminal: boolean) => ({
+			Deno: { noColor, stdout: { isTerminal: () => isTerminal } },
+		});
+		assertEquals(shouldUseColor(deno(false, true)), true);
+		assertEquals(shouldUseColor(deno(true, true)), false);
+		assertEquals(shouldUseColor(deno(false, false)), false);
+	});
+
+	it("should use color for Node.js terminals unless NO_COLOR is set", () => {
+		const node = (env: Record<string, string>, isTTY?: boolean) => ({
+			process: { env, stdout: { isTTY } },
+		});
+		assertEquals(shouldUseColor(node({}, true)), true);
+		assertEquals(shouldUseColor(node({ NO_COLOR: "1" }, true)), false);
+		assertEquals(shouldUseColor(node({})), false);
+	});
+
+	it("should not use color in other runtimes or when stdout can't be inspected", () => {
+		assertEquals(shouldUseColor({}), false);
+		assertEquals(
+			shouldUseColor({
+				Deno: {
+					noColor: false,
+					stdout: {
+						isTerminal: () => {
+							throw new Error("Permission denied");
+						},
+					},
+				},
+			}),
+			false,
+		);
+	});
+});
+
+describe("logPropertyTree colors", () => {
+	it("should respect an explicit colors option", () => {
+		const log = stub(console, "log");
+		try {
+			logPropertyTree({ a: 1 }, { maxDepth: 1, colors: true });
+			logPropertyTree({ a: 1 }, { maxDepth: 1, colors: false });
+		} finally {
+			log.restore();
+		}
+		const tree = buildPropertyTree({ a: 1 }, 1);
+		assertSpyCallArg(log, 0, 0, formatPropertyTreeToString(tree, { colors: true }));
+		assertSpyCallArg(log, 1, 0, formatPropertyTreeToString(tree));
+	});
+
+	it("should not colorize when stdout is not a terminal", () => {
+		const log = stub(console, "log");
+		const isTerminal = stub(Deno.stdout, "isTerminal", () => false);
+		try {
+			logPropertyTree({ a: 1 }, 1);
+		} finally {
+			log.restore();
+			isTerminal.restore();
+		}
+		assertSpyCallArg(log, 0, 0, formatPropertyTreeToString(buildPropertyTree({ a: 1 }, 1)));
+	});
+});
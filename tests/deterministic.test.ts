@@ -0,0 +1,134 @@
+import { assertEquals, assertNotStrictEquals } from "jsr:@std/assert";
+import { describe, it } from "jsr:@std/testing/bdd";
+import {
+	buildPropertyTree,
+	formatPropertyTreeToString,
+	normalizePropertyTree,
+} from "../mod.ts";
+
+describe("deterministic", () => {
+	it("should sort keys, with symbol keys last", () => {
+		const obj = { b: 1, [Symbol.for("z")]: 2, a: 3, B: 4, [Symbol.for("y")]: 5 };
+		const tree = buildPropertyTree(obj, { deterministic: true, includeSymbols: true });
+		assertEquals(tree.children?.map((child) => child.name), [
+			"B",
+			"a",
+			"b",
+			"Symbol(y)",
+			"Symbol(z)",
+		]);
+	});
+
+	it("should produce the same output whatever the insertion order", () => {
+		const settings = { theme: "dark" };
+		const first = { user: { settings, name: "Alice" }, defaults: settings };
+		const second = { defaults: settings, user: { name: "Alice", settings } };
+		const options = { deterministic: true, references: "dedupe" as const };
+		assertEquals(
+			formatPropertyTreeToString(buildPropertyTree(first, options)),
+			formatPropertyTreeToString(buildPropertyTree(second, options)),
+		);
+	});
+
+	it("should keep the order of arrays, Maps and Sets", () => {
+		const tree = buildPropertyTree(
+			{ list: ["b", "a"], map: new Map([["b", 1], ["a", 2]]), set: new Set(["b", "a"]) },
+			{ deterministic: true },
+		);
+		assertEquals(
+			tree.children?.map((child) => child.children?.map(({ name }) => name)),
+			[["[0]", "[1]"], ['"b" =>', '"a" =>'], ["[0]", "[1]"]],
+		);
+	});
+
+	it("should sort inherited keys after own keys", () => {
+		const obj = Object.assign(Object.create({ b: 1, a: 2 }), { d: 3, c: 4 });
+		const tree = buildPropertyTree(obj, { deterministic: true, includeInherited: true });
+		assertEquals(tree.children?.map((child) => child.name), ["c", "d", "a", "b"]);
+	});
+});
+
+describe("normalizePropertyTree", () => {
+	it("should renumber reference ids in order of appearance", () => {
+		const settings = { theme: "dark" };
+		const user: Record<string, unknown> = { settings };
+		user.self = user;
+		const tree = buildPropertyTree(
+			{ user, "default settings": settings, cache: new Map([["u", user]]) },
+			{ references: "dedupe" },
+		);
+		assertEquals(
+			formatPropertyTreeToString(normalizePropertyTree(tree)),
+			`
+└─ root (object)
+   ├─ user (object) <ref *1>
+   │  ├─ settings (object): [Ref *2 → root["default settings"]]
+   │  └─ self (object): [Circular *1 → root.user]
+   ├─ default settings (object) <ref *2>
+   │  └─ theme (string): "dark"
+   └─ cache (map)
+      └─ "u" => (object): [Ref *1 → root.user]
+`.trim(),
+		);
+	});
+
+	it("should replace unique symbols with numbered stand-ins", () => {
+		const id = Symbol("id-4821");
+		const obj = {
+			[id]: { kind: Symbol("kind"), same: id },
+			[Symbol.for("registered")]: Symbol.iterator,
+			lookup: new Map([[id, 1]]),
+		};
+		const tree = buildPropertyTree(obj, { includeSymbols: true, references: "dedupe" });
+		assertEquals(
+			formatPropertyTreeToString(normalizePropertyTree(tree)),
+			`
+└─ root (object)
+   ├─ lookup (map)
+   │  └─ Symbol(#1) => (number): 1
+   ├─ [Symbol(#1)] (object)
+   │  ├─ kind (symbol): Symbol(#2)
+   │  └─ same (symbol): Symbol(#1)
+   └─ [Symbol(registered)] (symbol): Symbol(Symbol.iterator)
+`.trim(),
+		);
+	});
+
+	it("should update paths and references to renamed nodes", () => {
+		const key = Symbol("key");
+		const shared = { value: 1 };
+		const tree = normalizePropertyTree(
+			buildPropertyTree({ [key]: shared, nested: { other: shared } }, {
+				includeSymbols: true,
+				references: "dedupe",
+			}),
+		);
+		const [nested, keyed] = tree.children ?? [];
+		assertEquals(keyed.jsPath, "root[Symbol(#1)]");
+		assertEquals(keyed.jsonPointer, "/Symbol(#1)");
+		assertEquals(keyed.children?.[0].jsPath, "root[Symbol(#1)].value");
+		assertEquals(nested.children?.[0].reference?.path, "root[Symbol(#1)]");
+	});
+
+	it("should leave the original tree untouched", () => {
+		const tree = buildPropertyTree({ [Symbol("a")]: 1 }, { includeSymbols: true });
+		const normalized = normalizePropertyTree(tree);
+		assertNotStrictEquals(normalized, tree);
+		assertEquals(tree.children?.[0].name, "Symbol(a)");
+		assertEquals(normalized.children?.[0].name, "Symbol(#1)");
+	});
+
+	it("should be applied by deterministic builds", () => {
+		const tree = buildPropertyTree({ [Symbol("a")]: Symbol("b") }, {
+			includeSymbols: true,
+			deterministic: true,
+		});
+		assertEquals(
+			formatPropertyTreeToString(tree),
+			`
+└─ root (object)
+   └─ [Symbol(#1)] (symbol): Symbol(#2)
+`.trim(),
+		);
+	});
+});
@@ -0,0 +1,212 @@
+import { assertEquals, assertExists } from "jsr:@std/assert";
+import { describe, it } from "jsr:@std/testing/bdd";
+import {
+	buildPropertyTree,
+	type ColorTheme,
+	diffPropertyTrees,
+	formatPropertyTreeDiff,
+} from "../mod.ts";
+
+describe("diffPropertyTrees", () => {
+	it("should report no differences for identical trees", () => {
+		const state = { id: 1, user: { name: "Alice", roles: ["admin"] } };
+		const diff = diffPropertyTrees(
+			buildPropertyTree(state, 3),
+			buildPropertyTree(state, 3),
+		);
+		assertEquals(diff.root.status, "unchanged");
+		assertEquals(diff.added.size, 0);
+		assertEquals(diff.removed.size, 0);
+		assertEquals(diff.changed.size, 0);
+		assertEquals(diff.typeChanged.size, 0);
+	});
+
+	it("should report added, removed, changed and type-changed nodes by path", () => {
+		const before = buildPropertyTree(
+			{ count: 1, id: 7, old: "x", user: { name: "Alice" } },
+			3,
+		);
+		const after = buildPropertyTree(
+			{ count: 2, id: "7", user: { name: "Alice", email: "a@b.c" }, new: true },
+			3,
+		);
+		const diff = diffPropertyTrees(before, after);
+
+		assertEquals([...diff.changed.keys()], ["root.count"]);
+		const count = diff.changed.get("root.count");
+		assertEquals(count?.before.value, 1);
+		assertEquals(count?.after.value, 2);
+
+		assertEquals([...diff.typeChanged.keys()], ["root.id"]);
+		assertEquals(diff.typeChanged.get("root.id")?.after.type, "string");
+
+		assertEquals([...diff.removed.keys()], ["root.old"]);
+		assertEquals(diff.removed.get("root.old")?.value, "x");
+
+		assertEquals([...diff.added.keys()], ["root.user.email", "root.new"]);
+		assertEquals(diff.added.get("root.new")?.value, true);
+
+		// Unified tree keeps `before` order, followed by added nodes
+		assertEquals(diff.root.children.map((c) => [c.name, c.status]), [
+			["count", "changed"],
+			["id", "type-changed"],
+			["old", "removed"],
+			["user", "unchanged"],
+			["new", "added"],
+		]);
+	});
+
+	it("should not compare children of type-changed nodes", () => {
+		const diff = diffPropertyTrees(
+			buildPropertyTree({ data: { a: 1 } }, 2),
+			buildPropertyTree({ data: [1] }, 2),
+		);
+		assertEquals([...diff.typeChanged.keys()], ["root.data"]);
+		assertEquals(diff.added.size, 0);
+		assertEquals(diff.removed.size, 0);
+		assertEquals(diff.root.children[0].children, []);
+	});
+
+	it("should only compare nodes down to the depth limit", () => {
+		const diff = diffPropertyTrees(
+			buildPropertyTree({ a: { b: { c: 1 } } }, 2),
+			buildPropertyTree({ a: { b: { c: 2 } } }, 2),
+		);
+		assertEquals(diff.changed.size, 0);
+		const bNode = diff.root.children[0].children[0];
+		assertEquals(bNode.name, "b");
+		assertEquals(bNode.status, "unchanged");
+		assertEquals(bNode.children, []);
+	});
+
+	it("should treat circular and access error markers like values", () => {
+		const selfRef: Record<string, unknown> = {};
+		selfRef.self = selfRef;
+		const throwing = {
+			get value() {
+				throw new Error("Getter failed!");
+			},
+		};
+
+		const unchanged = diffPropertyTrees(
+			buildPropertyTree({ selfRef, throwing }, 3),
+			buildPropertyTree({ selfRef, throwing }, 3),
+		);
+		assertEquals(unchanged.changed.size, 0);
+
+		// A property that stops being circular, or starts throwing, is a change
+		const diff = diffPropertyTrees(
+			buildPropertyTree({ selfRef, throwing: { value: 1 } }, 3),
+			buildPropertyTree({ selfRef: { self: {} }, throwing }, 3),
+		);
+		assertEquals([...diff.changed.keys()], ["root.selfRef.self"]);
+		assertEquals([...diff.typeChanged.keys()], ["root.throwing.value"]);
+	});
+
+	it("should report class name changes", () => {
+		class A {}
+		class B {}
+		const diff = diffPropertyTrees(
+			buildPropertyTree({ item: new A() }, 1),
+			buildPropertyTree({ item: new B() }, 1),
+		);
+		assertEquals([...diff.changed.keys()], ["root.item"]);
+	});
+
+	it("should match Map entries and repeated names", () => {
+		const diff = diffPropertyTrees(
+			buildPropertyTree(new Map<unknown, unknown>([["a", 1], [{}, 2], [{}, 3]]), 1),
+			buildPropertyTree(new Map<unknown, unknown>([["a", 1], [{}, 2], [{}, 4]]), 1),
+		);
+		const changed = [...diff.changed.values()];
+		assertEquals(changed.length, 1);
+		assertEquals(changed[0].after.value, 4);
+	});
+
+	it("should diff nodes without recorded paths", () => {
+		const diff = diffPropertyTrees(
+			{ name: "root", type: "object", children: [{ name: "a", type: "number", value: 1 }] },
+			{ name: "root", type: "object", children: [{ name: "a", type: "number", value: 2 }] },
+		);
+		assertExists(diff.changed.get("root.a"));
+	});
+});
+
+describe("formatPropertyTreeDiff", () => {
+	it("should format a unified tree with change markers", () => {
+		const before = buildPropertyTree(
+			{ count: 1, id: 7, old: { x: 1 }, user: { name: "Alice" } },
+			3,
+		);
+		const after = buildPropertyTree(
+			{ count: 2, id: "7", user: { name: "Alice", email: "a@b.c" }, new: [true] },
+			3,
+		);
+		const expected = `
+  └─ root (object)
+~    ├─ count (number): 1 → 2
+~    ├─ id (number → string): 7 → "7"
+-    ├─ old (object)
+-    │  └─ x (number): 1
+     ├─ user (object)
+     │  ├─ name (string): "Alice"
++    │  └─ email (string): "a@b.c"
++    └─ new (array)
++       └─ [0] (boolean): true
+`.slice(1, -1);
+		assertEquals(formatPropertyTreeDiff(diffPropertyTrees(before, after)), expected);
+	});
+
+	it("should show changed markers with the value they replace", () => {
+		const selfRef: Record<string, unknown> = {};
+		selfRef.self = selfRef;
+		const diff = diffPropertyTrees(
+			buildPropertyTree({ selfRef: { self: { a: 1 } } }, 3),
+			buildPropertyTree({ selfRef }, 3),
+		);
+		const expected = `
+  └─ root (object)
+     └─ selfRef (object)
+~       └─ self (object): (none) → [Circular Reference]
+`.slice(1, -1);
+		assertEquals(formatPropertyTreeDiff(diff), expected);
+	});
+
+	it("should style modified nodes like other nodes", () => {
+		const theme: ColorTheme = {
+			name: (text) => `{${text}}`,
+			type: (text) => `<${text}>`,
+			annotations: (text) => `[[${text}]]`,
+			number: (text) => `#${text}`,
+			string: (text) => `'${text}'`,
+		};
+		const diff = diffPropertyTrees(
+			buildPropertyTree({ a: 2, b: { c: 1 } }, 3),
+			buildPropertyTree({ a: 3, b: "x" }, 3),
+		);
+		const expected = `
+  └─ {root} <(object)>
+~    ├─ {a} <(number)>: #2 → #3
+~    └─ {b} <(object → string)>: [[(none)]] → '"x"'
+`.slice(1, -1);
+		assertEquals(formatPropertyTreeDiff(diff, { colors: true, theme }), expected);
+	});
+
+	it("should apply the property order", () => {
+		const diff = diffPropertyTrees(
+			buildPropertyTree({ b: 1, z: { y: 1 } }, 3),
+			buildPropertyTree({ b: 2, a: { d: [1], c: true } }, 3),
+		);
+		const expected = `
+  └─ root (object)
++    ├─ a (object)
++    │  ├─ c (boolean): true
++    │  └─ d (array)
++    │     └─ [0] (number): 1
+~    ├─ b (number): 1 → 2
+-    └─ z (object)
+-       └─ y (number): 1
+`.slice(1, -1);
+		assertEquals(formatPropertyTreeDiff(diff, { order: "alphabetical" }), expected);
+	});
+});
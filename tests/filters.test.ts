@@ -0,0 +1,148 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import { describe, it } from "jsr:@std/testing/bdd";
+import {
+	buildPropertyTree,
+	formatPropertyTreeToString,
+	getNodeAtPath,
+} from "../mod.ts";
+
+const data = {
+	user: { name: "Alice", roles: ["admin"] },
+	data: [
+		{ id: 1, payload: "a" },
+		{ id: 2, payload: "b" },
+	],
+	meta: { version: 3 },
+};
+
+describe("include", () => {
+	it("should keep matching branches with their descendants", () => {
+		const tree = buildPropertyTree(data, { maxDepth: 4, include: ["user.**"] });
+		assertEquals(
+			formatPropertyTreeToString(tree),
+			`
+└─ root (object)
+   └─ user (object)
+      ├─ name (string): "Alice"
+      └─ roles (array)
+         └─ [0] (string): "admin"
+`.trim(),
+		);
+	});
+
+	it("should keep the ancestors of matches", () => {
+		const tree = buildPropertyTree(data, { maxDepth: 4, include: ["data[*].id"] });
+		assertEquals(
+			formatPropertyTreeToString(tree),
+			`
+└─ root (object)
+   └─ data (array)
+      ├─ [0] (object)
+      │  └─ id (number): 1
+      └─ [1] (object)
+         └─ id (number): 2
+`.trim(),
+		);
+	});
+
+	it("should never read branches that can't lead to a match", () => {
+		let reads = 0;
+		const obj = {
+			kept: 1,
+			get skipped() {
+				reads++;
+				return { nested: true };
+			},
+		};
+		const tree = buildPropertyTree(obj, { include: ["kept"] });
+		assertEquals(reads, 0);
+		assertEquals(tree.children?.map((child) => child.name), ["kept"]);
+	});
+
+	it("should prune ancestors left without matching descendants", () => {
+		const obj = { a: { b: { target: 1 } }, c: { b: { other: 2 } }, d: "leaf" };
+		const tree = buildPropertyTree(obj, { maxDepth: 4, include: ["*.b.target"] });
+		assertEquals(tree.children?.map((child) => child.name), ["a"]);
+		assertEquals(getNodeAtPath(tree, "a.b.target")?.value, 1);
+	});
+
+	it("should accept a predicate", () => {
+		const tree = buildPropertyTree(data, {
+			maxDepth: 4,
+			include: (_path, value) => value === "b",
+		});
+		assertEquals(
+			formatPropertyTreeToString(tree),
+			`
+└─ root (object)
+   └─ data (array)
+      └─ [1] (object)
+         └─ payload (string): "b"
+`.trim(),
+		);
+	});
+
+	it("should match Map keys and bracketed keys", () => {
+		const obj = {
+			"odd key": new Map([["theme", "dark"], ["font", "mono"]]),
+		};
+		const tree = buildPropertyTree(obj, { include: ['["odd key"].theme'] });
+		assertEquals(getNodeAtPath(tree, '["odd key"].get("theme")')?.value, "dark");
+		assertEquals(getNodeAtPath(tree, '["odd key"]')?.children?.length, 1);
+	});
+});
+
+describe("exclude", () => {
+	it("should leave out matching branches without reading them", () => {
+		let reads = 0;
+		const obj = {
+			user: { name: "Alice" },
+			get cache() {
+				reads++;
+				return {};
+			},
+		};
+		const tree = buildPropertyTree(obj, { exclude: ["cache"] });
+		assertEquals(reads, 0);
+		assertEquals(tree.children?.map((child) => child.name), ["user"]);
+	});
+
+	it("should leave out every match of a ** glob", () => {
+		const tree = buildPropertyTree(data, { maxDepth: 4, exclude: ["**.payload"] });
+		assertEquals(getNodeAtPath(tree, "data[0].payload"), undefined);
+		assertEquals(getNodeAtPath(tree, "data[0].id")?.value, 1);
+	});
+
+	it("should accept a predicate", () => {
+		const tree = buildPropertyTree(data, {
+			maxDepth: 4,
+			exclude: (_path, _value, type) => type === "array",
+		});
+		assertEquals(tree.children?.map((child) => child.name), ["user", "meta"]);
+		assertEquals(getNodeAtPath(tree, "user.roles"), undefined);
+	});
+
+	it("should take priority over include", () => {
+		const tree = buildPropertyTree(data, {
+			maxDepth: 4,
+			include: ["user.**"],
+			exclude: ["user.roles"],
+		});
+		assertEquals(getNodeAtPath(tree, "user")?.children?.map((child) => child.name), [
+			"name",
+		]);
+	});
+
+	it("should throw for malformed globs", () => {
+		assertThrows(
+			() => buildPropertyTree({}, { exclude: ["user..name"] }),
+			SyntaxError,
+			'Invalid path glob "user..name" at position 4.',
+		);
+		assertThrows(
+			() => buildPropertyTree({}, { include: ["data[x]"] }),
+			SyntaxError,
+			"Invalid path glob",
+		);
+	});
+});
@@ -0,0 +1,262 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import { describe, it } from "jsr:@std/testing/bdd";
+import {
+	buildPropertyTree,
+	diffPropertyTrees,
+	formatPropertyTreeDiff,
+	formatPropertyTreeToString,
+} from "../mod.ts";
+
+describe("FormatOptions", () => {
+	describe("maxStringLength", () => {
+		const tree = buildPropertyTree({ text: "abcdefghij" }, 1);
+
+		it("should truncate strings to 50 characters by default", () => {
+			const long = buildPropertyTree("x".repeat(60), 0);
+			assertEquals(
+				formatPropertyTreeToString(long),
+				`└─ root (string): "${"x".repeat(50)}..."`,
+			);
+		});
+
+		it("should truncate strings to the given length", () => {
+			assertEquals(
+				formatPropertyTreeToString(tree, { maxStringLength: 4 }).split("\n")[1],
+				'   └─ text (string): "abcd..."',
+			);
+			assertEquals(
+				formatPropertyTreeToString(tree, { maxStringLength: 10 }).split("\n")[1],
+				'   └─ text (string): "abcdefghij"',
+			);
+		});
+
+		it("should not truncate strings when null", () => {
+			const long = buildPropertyTree("x".repeat(60), 0);
+			assertEquals(
+				formatPropertyTreeToString(long, { maxStringLength: null }),
+				`└─ root (string): "${"x".repeat(60)}"`,
+			);
+		});
+
+		it("should truncate before escaping", () => {
+			const newlines = buildPropertyTree("ab\ncd", 0);
+			assertEquals(
+				formatPropertyTreeToString(newlines, { maxStringLength: 3 }),
+				'└─ root (string): "ab\\n..."',
+			);
+		});
+
+		it("should count characters before escaping by default", () => {
+			const lines = buildPropertyTree("line\n".repeat(12), 0);
+			assertEquals(
+				formatPropertyTreeToString(lines),
+				`└─ root (string): "${"line\\n".repeat(10)}..."`,
+			);
+		});
+
+		it("should reject invalid lengths", () => {
+			assertThrows(
+				() => formatPropertyTreeToString(tree, { maxStringLength: -1 }),
+				RangeError,
+				"Invalid maxStringLength: -1",
+			);
+		});
+	});
+
+	describe("escape", () => {
+		const tree = buildPropertyTree('tab\there "quoted" \\ line\nbreak \x1b[0m é 😀  ', 0);
+
+		it("should only escape newlines by default", () => {
+			assertEquals(
+				formatPropertyTreeToString(tree, { maxStringLength: null }),
+				'└─ root (string): "tab\there "quoted" \\ line\\nbreak \x1b[0m é 😀  "',
+			);
+		});
+
+		it("should escape control characters, quotes and backslashes", () => {
+			assertEquals(
+				formatPropertyTreeToString(tree, { maxStringLength: null, escape: "control" }),
+				'└─ root (string): "tab\\there \\"quoted\\" \\\\ line\\nbreak \\x1b[0m é 😀 \\u2028"',
+			);
+		});
+
+		it("should escape lone surrogates", () => {
+			const lone = buildPropertyTree("a\ud800b", 0);
+			assertEquals(
+				formatPropertyTreeToString(lone, { escape: "control" }),
+				'└─ root (string): "a\\ud800b"',
+			);
+		});
+
+		it("should escape every non-ASCII character", () => {
+			assertEquals(
+				formatPropertyTreeToString(tree, { maxStringLength: null, escape: "unicode" }),
+				'└─ root (string): "tab\\there \\"quoted\\" \\\\ line\\nbreak \\x1b[0m \\xe9 \\u{1f600} \\u2028"',
+			);
+		});
+	});
+
+	describe("showTypes", () => {
+		it("should hide type labels and class names", () => {
+			class User {
+				name = "Alice";
+			}
+			const tree = buildPropertyTree({ user: new User() }, 2);
+			const expected = `
+└─ root
+   └─ user
+      └─ name: "Alice"
+`.slice(1, -1);
+			assertEquals(formatPropertyTreeToString(tree, { showTypes: false }), expected);
+		});
+
+		it("should hide type labels in diffs", () => {
+			const diff = diffPropertyTrees(
+				buildPropertyTree({ a: 1 }, 1),
+				buildPropertyTree({ a: "1" }, 1),
+			);
+			assertEquals(
+				formatPropertyTreeDiff(diff, { showTypes: false }),
+				'  └─ root\n~    └─ a: 1 → "1"',
+			);
+		});
+	});
+
+	describe("connectors and indentWidth", () => {
+		const obj = { user: { name: "Alice", roles: ["admin"] }, id: 1 };
+
+		it("should draw ASCII connectors", () => {
+			const expected = `
+\`- root (object)
+   +- user (object)
+   |  +- name (string): "Alice"
+   |  \`- roles (array)
+   |     \`- [0] (string): "admin"
+   \`- id (number): 1
+`.slice(1, -1);
+			assertEquals(
+				formatPropertyTreeToString(buildPropertyTree(obj, 3), { connectors: "ascii" }),
+				expected,
+			);
+		});
+
+		it("should use ASCII arrows in reference labels", () => {
+			const shared = {};
+			const tree = buildPropertyTree({ a: shared, b: shared }, {
+				maxDepth: 2,
+				references: "dedupe",
+			});
+			assertEquals(
+				formatPropertyTreeToString(tree, { connectors: "ascii" }).split("\n")[2],
+				"   `- b (object): [Ref *1 -> root.a]",
+			);
+		});
+
+		it("should change the indentation width", () => {
+			const expected = `
+└── root (object)
+    ├── user (object)
+    │   ├── name (string): "Alice"
+    │   └── roles (array)
+    │       └── [0] (string): "admin"
+    └── id (number): 1
+`.slice(1, -1);
+			assertEquals(
+				formatPropertyTreeToString(buildPropertyTree(obj, 3), { indentWidth: 4 }),
+				expected,
+			);
+			assertEquals(
+				formatPropertyTreeToString(buildPropertyTree({ id: 1 }, 1), {
+					indentWidth: 2,
+					connectors: "ascii",
+				}),
+				"` root (object)\n  ` id (number): 1",
+			);
+		});
+
+		it("should reject indentation widths below 2", () => {
+			assertThrows(
+				() => formatPropertyTreeToString(buildPropertyTree(obj, 1), { indentWidth: 1 }),
+				RangeError,
+				"Invalid indentWidth: 1",
+			);
+		});
+	});
+
+	describe("maxLineWidth", () => {
+		const tree = buildPropertyTree({
+			text: "abcdefghijklmnopqrstuvwxyz",
+			nested: { short: 1 },
+			last: "0123456789",
+		}, 2);
+
+		it("should not limit line width by default", () => {
+			assertEquals(
+				formatPropertyTreeToString(tree).split("\n")[1],
+				'   ├─ text (string): "abcdefghijklmnopqrstuvwxyz"',
+			);
+		});
+
+		it("should elide values that don't fit", () => {
+			const expected = `
+└─ root (object)
+   ├─ text (string): "abcde...
+   ├─ nested (object)
+   │  └─ short (number): 1
+   └─ last (string): "01234...
+`.slice(1, -1);
+			const output = formatPropertyTreeToString(tree, { maxLineWidth: 30 });
+			assertEquals(output, expected);
+			for (const line of output.split("\n")) {
+				assertEquals(line.length <= 30, true);
+			}
+		});
+
+		it("should wrap values that don't fit", () => {
+			const expected = `
+└─ root (object)
+   ├─ text (string): "abcdefgh
+   │     ijklmnopqrstuvwxyz"
+   ├─ nested (object)
+   │  └─ short (number): 1
+   └─ last (string): "01234567
+         89"
+`.slice(1, -1);
+			assertEquals(
+				formatPropertyTreeToString(tree, { maxLineWidth: 30, lineOverflow: "wrap" }),
+				expected,
+			);
+		});
+
+		it("should wrap values of nodes with children below a vertical line", () => {
+			const node = {
+				name: "root",
+				type: "object" as const,
+				value: "[Circular Reference]",
+				children: [{ name: "a", type: "number" as const, value: 1 }],
+			};
+			assertEquals(
+				formatPropertyTreeToString(node, { maxLineWidth: 22, lineOverflow: "wrap" }),
+				"└─ root (object): [Cir\n   │  cular Reference]\n   └─ a (number): 1",
+			);
+		});
+
+		it("should start wrapped values on the next line when there is no room", () => {
+			assertEquals(
+				formatPropertyTreeToString(buildPropertyTree("abcdef", 0, "a long root name"), {
+					maxLineWidth: 20,
+					lineOverflow: "wrap",
+				}),
+				'└─ a long root name (string):\n      "abcdef"',
+			);
+		});
+
+		it("should reject invalid widths", () => {
+			assertThrows(
+				() => formatPropertyTreeToString(tree, { maxLineWidth: 0 }),
+				RangeError,
+				"Invalid maxLineWidth: 0",
+			);
+		});
+	});
+});
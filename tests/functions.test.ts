@@ -0,0 +1,148 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import { describe, it } from "jsr:@std/testing/bdd";
+import {
+	buildPropertyTree,
+	diffPropertyTrees,
+	formatPropertyTreeToString,
+	type FunctionInfo,
+} from "../mod.ts";
+
+class Service {
+	static instances = 2;
+	static defaults = { retries: 3 };
+
+	handle(_request: unknown, _response: unknown) {}
+}
+
+function greet(name: string) {
+	return `Hello, ${name}`;
+}
+
+const functions = {
+	arrow: (a: number, b: number) => a + b,
+	regular: greet,
+	method() {},
+	async: async (_id: string) => {},
+	generator: function* () {},
+	asyncGenerator: async function* gen() {},
+	class: Service,
+	bound: greet.bind(null),
+	native: Math.max,
+};
+
+/** Builds a tree of `value` and returns the `functionInfo` of each child. */
+function describeChildren(value: object, options = {}): (FunctionInfo | undefined)[] {
+	const tree = buildPropertyTree(value, options);
+	return tree.children?.map((child) => child.functionInfo) ?? [];
+}
+
+describe("functionInfo", () => {
+	it("should record the name, arity and kind of functions", () => {
+		assertEquals(describeChildren(functions), [
+			{ name: "arrow", arity: 2, kind: "arrow" },
+			{ name: "greet", arity: 1, kind: "regular" },
+			{ name: "method", arity: 0, kind: "regular" },
+			{ name: "async", arity: 1, kind: "async" },
+			{ name: "generator", arity: 0, kind: "generator" },
+			{ name: "gen", arity: 0, kind: "async generator" },
+			{ name: "Service", arity: 0, kind: "class" },
+			{ name: "greet", arity: 1, kind: "bound" },
+			{ name: "max", arity: 2, kind: "native" },
+		]);
+	});
+
+	it("should describe root functions", () => {
+		assertEquals(buildPropertyTree(greet).functionInfo, {
+			name: "greet",
+			arity: 1,
+			kind: "regular",
+		});
+	});
+
+	it("should record a truncated source preview on one line", () => {
+		const add = (a: number, b: number) => {
+			return a + b;
+		};
+		const [short] = describeChildren({ add }, { functionSourceLength: 20 });
+		assertEquals(short?.source, String(add).replace(/\s+/g, " ").slice(0, 20) + "…");
+
+		const [full] = describeChildren({ add }, { functionSourceLength: 1000 });
+		assertEquals(full?.source, String(add).replace(/\s+/g, " "));
+	});
+
+	it("should not record the source of native or bound functions", () => {
+		const [bound, native] = describeChildren(
+			{ bound: functions.bound, native: functions.native },
+			{ functionSourceLength: 100 },
+		);
+		assertEquals(bound?.source, undefined);
+		assertEquals(native?.source, undefined);
+	});
+
+	it("should reject invalid source lengths", () => {
+		for (const functionSourceLength of [-1, 1.5]) {
+			assertThrows(
+				() => buildPropertyTree(functions, { functionSourceLength }),
+				RangeError,
+				"Invalid functionSourceLength",
+			);
+		}
+	});
+
+	it("should report changed functions in diffs", () => {
+		const before = buildPropertyTree({ fn: (_a: number) => {} });
+		const after = buildPropertyTree({ fn: async (_a: number) => {} });
+		assertEquals([...diffPropertyTrees(before, after).changed.keys()], ["root.fn"]);
+	});
+});
+
+describe("expandFunctions", () => {
+	it("should expand the static properties of classes", () => {
+		const tree = buildPropertyTree({ Service }, { expandFunctions: true });
+		assertEquals(
+			formatPropertyTreeToString(tree),
+			`
+└─ root (object)
+   └─ Service (function class Service/0)
+      ├─ instances (number): 2
+      └─ defaults (object)
+         └─ retries (number): 3
+`.trim(),
+		);
+	});
+
+	it("should not expand functions by default", () => {
+		const tree = buildPropertyTree({ Service });
+		assertEquals(tree.children?.[0].children, undefined);
+	});
+});
+
+describe("showFunctionInfo", () => {
+	const handle = async (_req: unknown, _res: unknown) => {};
+	const tree = buildPropertyTree({ handle, callbacks: [() => {}] }, { maxDepth: 2 });
+	tree.children![0].functionInfo!.source = "async (req, res) => …";
+
+	it("should show function signatures and source previews", () => {
+		assertEquals(
+			formatPropertyTreeToString(tree),
+			`
+└─ root (object)
+   ├─ handle (function async handle/2): async (req, res) => …
+   └─ callbacks (array)
+      └─ [0] (function arrow anonymous/0)
+`.trim(),
+		);
+	});
+
+	it("should show only the type when disabled", () => {
+		assertEquals(
+			formatPropertyTreeToString(tree, { showFunctionInfo: false }),
+			`
+└─ root (object)
+   ├─ handle (function)
+   └─ callbacks (array)
+      └─ [0] (function)
+`.trim(),
+		);
+	});
+});
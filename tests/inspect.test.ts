@@ -0,0 +1,179 @@
+import { assertEquals } from "jsr:@std/assert";
+import { afterEach, describe, it } from "jsr:@std/testing/bdd";
+import { assertSpyCallArg, assertSpyCalls, spy } from "jsr:@std/testing/mock";
+import {
+	buildPropertyTree,
+	formatPropertyTreeToString,
+	INSPECT_SYMBOL,
+	type InspectContext,
+	registerTypeHandler,
+} from "../mod.ts";
+
+class Money {
+	constructor(public cents: number, public currency: string) {}
+
+	[Symbol.for("object-property-tree.inspect")]() {
+		return { summary: `${(this.cents / 100).toFixed(2)} ${this.currency}` };
+	}
+}
+
+class Decimal {
+	constructor(private digits: string) {}
+
+	toString() {
+		return this.digits;
+	}
+}
+
+describe("INSPECT_SYMBOL", () => {
+	it("should be the registered inspect symbol", () => {
+		assertEquals(INSPECT_SYMBOL, Symbol.for("object-property-tree.inspect"));
+	});
+
+	it("should show a custom summary without expanding the object", () => {
+		const tree = buildPropertyTree({ price: new Money(1250, "EUR") });
+		assertEquals(
+			formatPropertyTreeToString(tree),
+			`
+└─ root (object)
+   └─ price (object Money): 12.50 EUR
+`.trim(),
+		);
+	});
+
+	it("should replace the object with another value", () => {
+		const obj = {
+			id: { [INSPECT_SYMBOL]: () => ({ value: 42 }) },
+			gone: { [INSPECT_SYMBOL]: () => ({ value: undefined }) },
+		};
+		const tree = buildPropertyTree(obj);
+		assertEquals(tree.children?.map((child) => [child.type, child.value]), [
+			["number", 42],
+			["undefined", undefined],
+		]);
+	});
+
+	it("should show custom children and a class name", () => {
+		const entity = {
+			_internal: { dirty: true },
+			[INSPECT_SYMBOL]: (context: InspectContext) => ({
+				className: "UserEntity",
+				summary: `loaded at ${context.path.join(".")}`,
+				children: { id: 7, tags: ["a"] },
+			}),
+		};
+		const tree = buildPropertyTree({ user: entity }, 4);
+		assertEquals(
+			formatPropertyTreeToString(tree),
+			`
+└─ root (object)
+   └─ user (object UserEntity): loaded at user
+      ├─ id (number): 7
+      └─ tags (array)
+         └─ [0] (string): "a"
+`.trim(),
+		);
+		assertEquals(tree.children?.[0].children?.[0].jsPath, "root.user.id");
+	});
+
+	it("should apply to the root", () => {
+		const tree = buildPropertyTree(new Money(5, "USD"));
+		assertEquals(formatPropertyTreeToString(tree), "└─ root (object Money): 0.05 USD");
+	});
+
+	it("should fall back to the default when the hook throws", () => {
+		const obj = {
+			value: {
+				a: 1,
+				[INSPECT_SYMBOL]: () => {
+					throw new Error("nope");
+				},
+			},
+		};
+		const onError = spy();
+		const tree = buildPropertyTree(obj, { onError });
+		assertEquals(tree.children?.[0].children?.[0].value, 1);
+		assertSpyCalls(onError, 1);
+		assertSpyCallArg(onError, 0, 1, ["value"]);
+	});
+
+	it("should only read hooks defined by getters when getters are invoked", () => {
+		const getter = spy(() => () => ({ summary: "inspected" }));
+		const proto = Object.defineProperty({}, INSPECT_SYMBOL, { get: getter });
+		const obj = { value: Object.create(proto) };
+		assertEquals(buildPropertyTree(obj, { accessors: "skip" }).children?.[0].summary, undefined);
+		assertSpyCalls(getter, 0);
+		assertEquals(buildPropertyTree(obj).children?.[0].summary, "inspected");
+		assertSpyCalls(getter, 1);
+	});
+
+	it("should not read hooks through Proxy get traps", () => {
+		const keys: (string | symbol)[] = [];
+		const value = new Proxy({ a: 1 }, {
+			get: (target, key, receiver) => {
+				keys.push(key);
+				return Reflect.get(target, key, receiver);
+			},
+		});
+		buildPropertyTree({ value });
+		assertEquals(keys, []);
+	});
+});
+
+describe("registerTypeHandler", () => {
+	const unregisters: (() => void)[] = [];
+
+	afterEach(() => {
+		unregisters.splice(0).forEach((unregister) => unregister());
+	});
+
+	it("should describe values matching the predicate", () => {
+		unregisters.push(registerTypeHandler(
+			(value): value is Decimal => value instanceof Decimal,
+			(value) => ({ summary: value.toString() }),
+		));
+		const tree = buildPropertyTree({ total: new Decimal("19.99") });
+		assertEquals(
+			formatPropertyTreeToString(tree),
+			`
+└─ root (object)
+   └─ total (object Decimal): 19.99
+`.trim(),
+		);
+	});
+
+	it("should still apply handlers when reading the hook throws", () => {
+		unregisters.push(registerTypeHandler(() => true, () => ({ summary: "handled" })));
+		const obj = {
+			get [INSPECT_SYMBOL]() {
+				throw new Error("nope");
+			},
+		};
+		const onError = spy();
+		assertEquals(buildPropertyTree(obj, { onError }).summary, "handled");
+		assertSpyCalls(onError, 1);
+	});
+
+	it("should prefer later handlers and the object's own hook", () => {
+		const obj = { a: {}, b: new Money(100, "GBP") };
+		unregisters.push(
+			registerTypeHandler((value) => value !== obj, () => ({ summary: "first" })),
+			registerTypeHandler((value) => value !== obj, () => ({ summary: "second" })),
+		);
+		const tree = buildPropertyTree(obj);
+		assertEquals(tree.children?.map((child) => child.summary), ["second", "1.00 GBP"]);
+	});
+
+	it("should fall back when the handler returns undefined", () => {
+		unregisters.push(registerTypeHandler(() => true, () => undefined));
+		const tree = buildPropertyTree({ a: { b: 1 } });
+		assertEquals(tree.children?.[0].children?.[0].value, 1);
+	});
+
+	it("should stop applying once unregistered", () => {
+		const unregister = registerTypeHandler(() => true, () => ({ summary: "x" }));
+		unregister();
+		const tree = buildPropertyTree({ a: { b: 1 } });
+		assertEquals(tree.children?.[0].summary, undefined);
+	});
+});
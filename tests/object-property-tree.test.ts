@@ -1,5 +1,6 @@
 import { assertEquals, assertExists, assertThrows } from "jsr:@std/assert";
 import { describe, it } from "jsr:@std/testing/bdd";
+import { assertSpyCallArg, assertSpyCalls, spy, stub } from "jsr:@std/testing/mock";
 import {
 	InvalidDepthError,
 	buildPropertyTree,
@@ -9,6 +10,7 @@ import {
 // --- Constants for Markers ---
 const CIRCULAR_REFERENCE_MARKER = "[Circular Reference]";
 const ACCESS_ERROR_MARKER = "[Access Error]";
+const TRUNCATED_MARKER = "[Truncated]";
 
 describe("buildPropertyTree", () => {
 	// Test basic primitive types
@@ -272,6 +274,80 @@ describe("buildPropertyTree", () => {
 		assertEquals(alsoProblematicNode.value, ACCESS_ERROR_MARKER);
 	});
 
+	it("should record access error details without logging", () => {
+		const errorStub = stub(console, "error");
+		try {
+			const tree = buildPropertyTree({
+				get denied() {
+					throw new TypeError("not allowed");
+				},
+				get odd() {
+					throw "plain string";
+				},
+			});
+			assertEquals(tree.children?.map((child) => child.error), [
+				"TypeError: not allowed",
+				"plain string",
+			]);
+			assertEquals(tree.children?.[0].errorStack, undefined);
+			assertSpyCalls(errorStub, 0);
+		} finally {
+			errorStub.restore();
+		}
+	});
+
+	it("should log errors when not silent", () => {
+		const errorStub = stub(console, "error");
+		const onError = spy();
+		try {
+			const error = new TypeError("not allowed");
+			buildPropertyTree(
+				{
+					nested: {
+						get denied() {
+							throw error;
+						},
+					},
+				},
+				{ silent: false, onError },
+			);
+			assertSpyCalls(errorStub, 1);
+			assertSpyCallArg(errorStub, 0, 0, "Error building property tree at root.nested.denied:");
+			assertSpyCallArg(errorStub, 0, 1, error);
+			assertSpyCalls(onError, 1);
+		} finally {
+			errorStub.restore();
+		}
+	});
+
+	it("should pass access errors to onError", () => {
+		const error = new RangeError("out of range");
+		const list = new Proxy([1, 2], {
+			get: (target, key) => {
+				if (key === "1") throw error;
+				return Reflect.get(target, key);
+			},
+		});
+		const onError = spy();
+		const tree = buildPropertyTree({ list }, { onError });
+		assertSpyCalls(onError, 1);
+		assertSpyCallArg(onError, 0, 0, error);
+		assertSpyCallArg(onError, 0, 1, ["list", 1]);
+		assertEquals(tree.children?.[0].children?.[1].error, "RangeError: out of range");
+	});
+
+	it("should record error stacks when enabled", () => {
+		const tree = buildPropertyTree(
+			{
+				get broken() {
+					throw new Error("boom");
+				},
+			},
+			{ errorStacks: true },
+		);
+		assertEquals(tree.children?.[0].errorStack?.startsWith("Error: boom\n"), true);
+	});
+
 	// Test invalid depth parameter
 	it("should throw InvalidDepthError for invalid depth parameters", () => {
 		// Negative depth
@@ -308,6 +384,739 @@ describe("buildPropertyTree", () => {
 		assertExists(emptyArrResult.children); // Children array should exist
 		assertEquals(emptyArrResult.children.length, 0); // But be empty
 	});
+
+	// Test the options object form
+	it("should accept an options object in place of positional arguments", () => {
+		const testObj = { a: { b: { c: { d: 1 } } } };
+
+		const positional = buildPropertyTree(testObj, 2, "myObject");
+		const withOptions = buildPropertyTree(testObj, {
+			maxDepth: 2,
+			rootName: "myObject",
+		});
+		assertEquals(withOptions, positional);
+
+		// maxDepth defaults to 3 and rootName to "root"
+		const defaults = buildPropertyTree(testObj, {});
+		assertEquals(defaults, buildPropertyTree(testObj, 3));
+		assertEquals(defaults.name, "root");
+
+		assertThrows(
+			() => buildPropertyTree(testObj, { maxDepth: -1 }),
+			InvalidDepthError,
+		);
+	});
+
+	// Test symbol keys
+	it("should include symbol-keyed properties only when includeSymbols is set", () => {
+		const tag = Symbol("tag");
+		const testObj = { name: "Test", [tag]: "tagged" };
+
+		const withoutSymbols = buildPropertyTree(testObj, 1);
+		assertExists(withoutSymbols.children);
+		assertEquals(withoutSymbols.children.length, 1);
+
+		const withSymbols = buildPropertyTree(testObj, {
+			maxDepth: 1,
+			includeSymbols: true,
+		});
+		assertExists(withSymbols.children);
+		assertEquals(withSymbols.children.length, 2);
+		const tagNode = withSymbols.children[1];
+		assertEquals(tagNode.name, "Symbol(tag)");
+		assertEquals(tagNode.type, "string");
+		assertEquals(tagNode.value, "tagged");
+		assertEquals(tagNode.isSymbolKey, true);
+		assertEquals(withSymbols.children[0].isSymbolKey, undefined);
+	});
+
+	// Test non-enumerable keys
+	it("should include non-enumerable properties only when includeNonEnumerable is set", () => {
+		const testObj = { visible: 1 };
+		Object.defineProperty(testObj, "hidden", { value: 2, enumerable: false });
+
+		const withoutHidden = buildPropertyTree(testObj, 1);
+		assertExists(withoutHidden.children);
+		assertEquals(withoutHidden.children.length, 1);
+
+		const withHidden = buildPropertyTree(testObj, {
+			maxDepth: 1,
+			includeNonEnumerable: true,
+		});
+		assertExists(withHidden.children);
+		assertEquals(withHidden.children.length, 2);
+		const hiddenNode = withHidden.children[1];
+		assertEquals(hiddenNode.name, "hidden");
+		assertEquals(hiddenNode.value, 2);
+		assertEquals(hiddenNode.isNonEnumerable, true);
+
+		// Error messages are own non-enumerable properties
+		const errorTree = buildPropertyTree(new Error("boom"), {
+			maxDepth: 1,
+			includeNonEnumerable: true,
+		});
+		const messageNode = errorTree.children?.find((c) => c.name === "message");
+		assertExists(messageNode);
+		assertEquals(messageNode.value, "boom");
+	});
+
+	// Test inherited keys
+	it("should include inherited properties only when includeInherited is set", () => {
+		class Person {
+			constructor(public first: string, public last: string) {}
+			get fullName() {
+				return `${this.first} ${this.last}`;
+			}
+		}
+		const person = new Person("Ada", "Lovelace");
+
+		const ownOnly = buildPropertyTree(person, 1);
+		assertExists(ownOnly.children);
+		assertEquals(
+			ownOnly.children.map((c) => c.name),
+			["first", "last"],
+		);
+
+		// Class accessors live on the prototype and are non-enumerable
+		const inherited = buildPropertyTree(person, {
+			maxDepth: 1,
+			includeInherited: true,
+			includeNonEnumerable: true,
+		});
+		const fullNameNode = inherited.children?.find((c) => c.name === "fullName");
+		assertExists(fullNameNode);
+		assertEquals(fullNameNode.type, "string");
+		assertEquals(fullNameNode.value, "Ada Lovelace"); // Getter sees the instance as `this`
+		assertEquals(fullNameNode.isInherited, true);
+		assertEquals(fullNameNode.isNonEnumerable, true);
+
+		// Object.prototype members are never included
+		assertEquals(
+			inherited.children?.find((c) => c.name === "toString"),
+			undefined,
+		);
+	});
+
+	it("should not report inherited properties shadowed by own properties", () => {
+		const proto = { shared: "proto", onlyProto: true };
+		const testObj = Object.create(proto);
+		testObj.shared = "own";
+
+		const result = buildPropertyTree(testObj, {
+			maxDepth: 1,
+			includeInherited: true,
+		});
+		assertExists(result.children);
+		assertEquals(result.children.length, 2);
+		assertEquals(result.children[0].name, "shared");
+		assertEquals(result.children[0].value, "own");
+		assertEquals(result.children[0].isInherited, undefined);
+		assertEquals(result.children[1].name, "onlyProto");
+		assertEquals(result.children[1].isInherited, true);
+	});
+
+	// Test built-in object types
+	it("should identify built-in object types", () => {
+		const builtIns = {
+			map: new Map(),
+			set: new Set(),
+			weakmap: new WeakMap(),
+			weakset: new WeakSet(),
+			weakref: new WeakRef({}),
+			date: new Date(0),
+			regexp: /a/g,
+			promise: Promise.resolve(),
+			typedarray: new Uint8Array(2),
+			arraybuffer: new ArrayBuffer(8),
+			dataview: new DataView(new ArrayBuffer(8)),
+		};
+		const result = buildPropertyTree(builtIns, 1);
+		assertExists(result.children);
+		for (const child of result.children) {
+			assertEquals(child.type, child.name);
+		}
+
+		// Subclasses are reported as their built-in type
+		class Registry extends Map {}
+		assertEquals(buildPropertyTree(new Registry(), 0).type, "map");
+	});
+
+	it("should give dates and regular expressions a string value", () => {
+		const result = buildPropertyTree(
+			{
+				date: new Date("2024-01-02T03:04:05.000Z"),
+				invalid: new Date(NaN),
+				pattern: /ab+c/gi,
+			},
+			1,
+		);
+		assertExists(result.children);
+		assertEquals(result.children[0].type, "date");
+		assertEquals(result.children[0].value, "2024-01-02T03:04:05.000Z");
+		assertEquals(result.children[1].value, "Invalid Date");
+		assertEquals(result.children[2].type, "regexp");
+		assertEquals(result.children[2].value, "/ab+c/gi");
+
+		// Also at the root, regardless of depth
+		const rootDate = buildPropertyTree(new Date(0), 0);
+		assertEquals(rootDate.value, "1970-01-01T00:00:00.000Z");
+		assertEquals(rootDate.children, undefined);
+	});
+
+	it("should expand Map entries as child nodes named by key", () => {
+		const objectKey = { id: 1 };
+		const map = new Map<unknown, unknown>([
+			["theme", "dark"],
+			[42, { nested: true }],
+			[objectKey, 10n],
+		]);
+		const result = buildPropertyTree(map, 2);
+		assertEquals(result.type, "map");
+		assertExists(result.children);
+		assertEquals(
+			result.children.map((c) => c.name),
+			['"theme" =>', "42 =>", "<object> =>"],
+		);
+		assertEquals(result.children[0].value, "dark");
+		assertEquals(result.children[1].type, "object");
+		assertExists(result.children[1].children);
+		assertEquals(result.children[1].children[0].name, "nested");
+		assertEquals(result.children[2].value, 10n);
+	});
+
+	it("should expand Set members as indexed child nodes", () => {
+		const result = buildPropertyTree(new Set(["a", "b"]), 1);
+		assertEquals(result.type, "set");
+		assertExists(result.children);
+		assertEquals(result.children.length, 2);
+		assertEquals(result.children[0].name, "[0]");
+		assertEquals(result.children[0].value, "a");
+		assertEquals(result.children[1].name, "[1]");
+		assertEquals(result.children[1].value, "b");
+	});
+
+	it("should expand typed arrays element by element", () => {
+		const result = buildPropertyTree(new Uint8Array([7, 8]), 1);
+		assertEquals(result.type, "typedarray");
+		assertExists(result.children);
+		assertEquals(result.children.length, 2);
+		assertEquals(result.children[0].name, "[0]");
+		assertEquals(result.children[0].type, "number");
+		assertEquals(result.children[1].value, 8);
+	});
+
+	it("should detect circular references through Map and Set", () => {
+		const map = new Map<string, unknown>();
+		map.set("self", map);
+		const mapResult = buildPropertyTree(map, 3);
+		assertExists(mapResult.children);
+		assertEquals(mapResult.children[0].type, "map");
+		assertEquals(mapResult.children[0].value, CIRCULAR_REFERENCE_MARKER);
+
+		const set = new Set<unknown>();
+		set.add(set);
+		const setResult = buildPropertyTree(set, 3);
+		assertExists(setResult.children);
+		assertEquals(setResult.children[0].value, CIRCULAR_REFERENCE_MARKER);
+	});
+
+	it("should not expand non-iterable built-ins", () => {
+		const result = buildPropertyTree(
+			{ weak: new WeakMap([[{}, 1]]), promise: Promise.resolve(1) },
+			2,
+		);
+		assertExists(result.children);
+		for (const child of result.children) {
+			assertEquals(child.children, undefined);
+			assertEquals(child.value, undefined);
+		}
+	});
+
+	// Test class names
+	it("should record class names of class instances", () => {
+		class User {
+			name = "Alice";
+		}
+		class Registry extends Map {}
+		const result = buildPropertyTree(
+			{
+				user: new User(),
+				plain: {},
+				list: [],
+				registry: new Registry(),
+				bytes: new Uint8Array(1),
+				error: new TypeError("bad"),
+			},
+			1,
+		);
+		assertExists(result.children);
+		const [user, plain, list, registry, bytes, error] = result.children;
+		assertEquals(user.className, "User");
+		assertEquals(plain.className, undefined); // Default constructors are not recorded
+		assertEquals(list.className, undefined);
+		assertEquals(registry.className, "Registry");
+		assertEquals(bytes.className, "Uint8Array"); // Always recorded for typed arrays
+		assertEquals(error.className, "TypeError");
+		assertEquals(result.className, undefined);
+
+		assertEquals(buildPropertyTree(new User(), 0).className, "User");
+	});
+
+	it("should flag null-prototype objects", () => {
+		const bare = Object.create(null);
+		bare.key = "value";
+		const result = buildPropertyTree({ bare }, 2);
+		const bareNode = result.children?.[0];
+		assertExists(bareNode);
+		assertEquals(bareNode.type, "object");
+		assertEquals(bareNode.hasNullPrototype, true);
+		assertEquals(bareNode.className, undefined);
+		assertEquals(bareNode.children?.[0].value, "value");
+	});
+
+	it("should find class names without invoking constructor getters", () => {
+		let invoked = false;
+		const proto = {};
+		Object.defineProperty(proto, "constructor", {
+			get() {
+				invoked = true;
+				return class Hidden {};
+			},
+		});
+		const result = buildPropertyTree(Object.create(proto), 0);
+		assertEquals(invoked, false);
+		assertEquals(result.className, undefined);
+	});
+
+	// Test accessor policies
+	it("should not invoke getters when accessors is 'skip'", () => {
+		let calls = 0;
+		const testObj = {
+			plain: 1,
+			get lazy() {
+				calls++;
+				return "loaded";
+			},
+			get both() {
+				calls++;
+				return 0;
+			},
+			set both(_value: number) {
+				// Setters are never called while building the tree
+			},
+			set writeOnly(_value: string) {
+				// Setters are never called while building the tree
+			},
+		};
+
+		const result = buildPropertyTree(testObj, { maxDepth: 1, accessors: "skip" });
+		assertEquals(calls, 0);
+		assertExists(result.children);
+		const [plain, lazy, both, writeOnly] = result.children;
+		assertEquals(plain.value, 1);
+		assertEquals(lazy.type, "accessor");
+		assertEquals(lazy.value, "[Getter]");
+		assertEquals(both.type, "accessor");
+		assertEquals(both.value, "[Getter/Setter]");
+		assertEquals(writeOnly.type, "accessor");
+		assertEquals(writeOnly.value, "[Setter]");
+
+		// The default policy invokes every getter
+		const invoked = buildPropertyTree(testObj, 1);
+		assertEquals(calls, 2);
+		assertEquals(invoked.children?.[1].value, "loaded");
+		assertEquals(invoked.children?.[3].type, "undefined"); // Setter-only reads as undefined
+	});
+
+	it("should only invoke allowlisted getters", () => {
+		const invoked: string[] = [];
+		const testObj = {
+			get id() {
+				invoked.push("id");
+				return 1;
+			},
+			get displayName() {
+				invoked.push("displayName");
+				return "Alice";
+			},
+			get expensive() {
+				invoked.push("expensive");
+				return [];
+			},
+		};
+
+		const result = buildPropertyTree(testObj, {
+			maxDepth: 1,
+			accessors: { allow: ["id", /^display/] },
+		});
+		assertEquals(invoked, ["id", "displayName"]);
+		assertExists(result.children);
+		assertEquals(result.children[0].value, 1);
+		assertEquals(result.children[1].value, "Alice");
+		assertEquals(result.children[2].type, "accessor");
+		assertEquals(result.children[2].value, "[Getter]");
+	});
+
+	it("should skip inherited class accessors without invoking them", () => {
+		let calls = 0;
+		class Lazy {
+			get data() {
+				calls++;
+				return 1;
+			}
+		}
+		const result = buildPropertyTree(new Lazy(), {
+			maxDepth: 1,
+			includeInherited: true,
+			includeNonEnumerable: true,
+			accessors: "skip",
+		});
+		assertEquals(calls, 0);
+		const dataNode = result.children?.find((c) => c.name === "data");
+		assertExists(dataNode);
+		assertEquals(dataNode.value, "[Getter]");
+		assertEquals(dataNode.isInherited, true);
+	});
+
+	// Test descriptor metadata
+	it("should record property descriptor attributes", () => {
+		const testObj = {
+			normal: 1,
+			get computed() {
+				return 2;
+			},
+		};
+		Object.defineProperty(testObj, "constant", {
+			value: 3,
+			enumerable: true,
+			writable: false,
+			configurable: true,
+		});
+		const result = buildPropertyTree(testObj, 1);
+		assertExists(result.children);
+		const [normal, computed, constant] = result.children;
+		assertEquals(normal.descriptor, {
+			kind: "data",
+			writable: true,
+			enumerable: true,
+			configurable: true,
+		});
+		assertEquals(computed.descriptor, {
+			kind: "accessor",
+			enumerable: true,
+			configurable: true,
+			hasGetter: true,
+			hasSetter: false,
+		});
+		assertEquals(constant.descriptor?.writable, false);
+
+		// Array elements and the root have no descriptor
+		assertEquals(result.descriptor, undefined);
+		assertEquals(buildPropertyTree([1], 1).children?.[0].descriptor, undefined);
+	});
+
+	// Test reference handling
+	it("should record the path of circular reference targets", () => {
+		const parent: Record<string, unknown> = { name: "parent" };
+		parent.child = { back: parent, list: [] as unknown[] };
+		(parent.child as { list: unknown[] }).list.push(parent.child);
+
+		const result = buildPropertyTree({ parent }, 5);
+		const parentNode = result.children?.[0];
+		const childNode = parentNode?.children?.[1];
+		assertExists(childNode?.children);
+		const backNode = childNode.children[0];
+		assertEquals(backNode.value, CIRCULAR_REFERENCE_MARKER);
+		assertEquals(backNode.reference, { kind: "circular", path: "root.parent" });
+		const listItem = childNode.children[1].children?.[0];
+		assertEquals(listItem?.reference, {
+			kind: "circular",
+			path: "root.parent.child",
+		});
+		// Ids are only assigned when deduplicating
+		assertEquals(parentNode?.refId, undefined);
+	});
+
+	it("should expand shared objects in every branch by default", () => {
+		const shared = { value: 1 };
+		const result = buildPropertyTree({ a: shared, b: shared }, 2);
+		assertExists(result.children);
+		assertEquals(result.children[0].children?.length, 1);
+		assertEquals(result.children[1].children?.length, 1);
+		assertEquals(result.children[1].reference, undefined);
+	});
+
+	it("should expand shared objects once when references is 'dedupe'", () => {
+		const shared = { value: 1 };
+		const result = buildPropertyTree(
+			{ first: { shared }, second: shared, list: [shared] },
+			{ maxDepth: 3, references: "dedupe" },
+		);
+		assertExists(result.children);
+		const [first, second, list] = result.children;
+
+		// Breadth-first traversal expands the shallowest occurrence
+		assertExists(second.children);
+		assertEquals(second.refId, 1);
+		assertEquals(second.children[0].value, 1);
+
+		const sharedInFirst = first.children?.[0];
+		assertExists(sharedInFirst);
+		assertEquals(sharedInFirst.value, "[Shared Reference]");
+		assertEquals(sharedInFirst.children, undefined);
+		assertEquals(sharedInFirst.reference, {
+			kind: "shared",
+			id: 1,
+			path: "root.second",
+		});
+		assertEquals(list.children?.[0].reference?.id, 1);
+	});
+
+	it("should assign reference ids to cycle targets when references is 'dedupe'", () => {
+		const user: Record<string, unknown> = { name: "Alice" };
+		user.self = user;
+		const team = { lead: user };
+		const result = buildPropertyTree({ user, team }, {
+			maxDepth: 4,
+			references: "dedupe",
+		});
+		assertExists(result.children);
+		const [userNode, teamNode] = result.children;
+		assertEquals(userNode.refId, 1);
+		const selfNode = userNode.children?.find((c) => c.name === "self");
+		assertEquals(selfNode?.value, CIRCULAR_REFERENCE_MARKER);
+		assertEquals(selfNode?.reference, {
+			kind: "circular",
+			id: 1,
+			path: "root.user",
+		});
+		assertEquals(teamNode.children?.[0].reference?.kind, "shared");
+
+		// The root itself can be a cycle target
+		const root: Record<string, unknown> = {};
+		root.again = root;
+		const rootResult = buildPropertyTree(root, { references: "dedupe" });
+		assertEquals(rootResult.refId, 1);
+		assertEquals(rootResult.children?.[0].reference?.path, "root");
+	});
+
+	// Test node paths
+	it("should record the path of every node", () => {
+		const tag = Symbol("tag");
+		const result = buildPropertyTree(
+			{
+				user: { roles: ["admin"], "first name": "Ada" },
+				cache: new Map([["a/b", 1]]),
+				[tag]: true,
+			},
+			{ maxDepth: 3, includeSymbols: true },
+		);
+		assertEquals(result.path, []);
+		assertEquals(result.jsPath, "root");
+		assertEquals(result.jsonPointer, "");
+
+		const user = result.children?.[0];
+		const role = user?.children?.[0].children?.[0];
+		assertExists(role);
+		assertEquals(role.path, ["user", "roles", 0]);
+		assertEquals(role.jsPath, "root.user.roles[0]");
+		assertEquals(role.jsonPointer, "/user/roles/0");
+
+		const firstName = user?.children?.[1];
+		assertEquals(firstName?.jsPath, 'root.user["first name"]');
+		assertEquals(firstName?.jsonPointer, "/user/first name");
+
+		const entry = result.children?.[1].children?.[0];
+		assertEquals(entry?.path, ["cache", { mapKey: "a/b" }]);
+		assertEquals(entry?.jsPath, 'root.cache.get("a/b")');
+		assertEquals(entry?.jsonPointer, "/cache/a~1b");
+
+		const tagNode = result.children?.[2];
+		assertEquals(tagNode?.path, [tag]);
+		assertEquals(tagNode?.jsPath, "root[Symbol(tag)]");
+	});
+
+	it("should record paths on access error nodes", () => {
+		const result = buildPropertyTree(
+			{
+				get broken() {
+					throw new Error("Getter failed!");
+				},
+			},
+			{ maxDepth: 1, rootName: "config" },
+		);
+		assertEquals(result.children?.[0].jsPath, "config.broken");
+	});
+
+	it("should keep the first maxChildren children and summarize the rest", () => {
+		const result = buildPropertyTree(
+			{ list: Array.from({ length: 50000 }, (_, i) => i), a: 1, b: 2, c: 3 },
+			{ maxDepth: 2, maxChildren: 2 },
+		);
+		assertEquals(result.children?.map((child) => child.name), [
+			"list",
+			"a",
+			"… 2 more properties",
+		]);
+		assertEquals(result.children?.[2], {
+			name: "… 2 more properties",
+			type: "elision",
+			elidedCount: 2,
+		});
+		const list = result.children?.[0].children;
+		assertEquals(list?.length, 3);
+		assertEquals(list?.[2].name, "… 49,998 more items");
+		assertEquals(list?.[2].elidedCount, 49998);
+	});
+
+	it("should keep the first and last children with a head and tail limit", () => {
+		const result = buildPropertyTree(
+			Array.from({ length: 10 }, (_, i) => i),
+			{ maxDepth: 1, maxChildren: { head: 2, tail: 1 } },
+		);
+		assertEquals(result.children?.map((child) => child.name), [
+			"[0]",
+			"[1]",
+			"… 7 more items",
+			"[9]",
+		]);
+		assertEquals(result.children?.[3].path, [9]);
+	});
+
+	it("should limit array items separately from other children", () => {
+		const result = buildPropertyTree(
+			{ list: [1, 2, 3, 4], a: 1, b: 2, c: 3 },
+			{ maxDepth: 2, maxChildren: 3, maxArrayItems: 1 },
+		);
+		assertEquals(result.children?.map((child) => child.name), [
+			"list",
+			"a",
+			"b",
+			"… 1 more property",
+		]);
+		assertEquals(result.children?.[0].children?.map((child) => child.name), [
+			"[0]",
+			"… 3 more items",
+		]);
+
+		const unlimited = buildPropertyTree(
+			{ list: [1, 2, 3, 4], a: 1 },
+			{ maxDepth: 2, maxChildren: 1, maxArrayItems: 10 },
+		);
+		assertEquals(unlimited.children?.[0].children?.length, 4);
+	});
+
+	it("should limit Map entries, Set members and typed array elements", () => {
+		const options = { maxDepth: 1, maxChildren: { head: 1, tail: 1 } };
+		const map = buildPropertyTree(new Map([["a", 1], ["b", 2], ["c", 3]]), options);
+		const set = buildPropertyTree(new Set([1, 2, 3]), options);
+		const bytes = buildPropertyTree(new Uint8Array(4), options);
+		assertEquals(map.children?.map((child) => child.name), [
+			'"a" =>',
+			"… 1 more entry",
+			'"c" =>',
+		]);
+		assertEquals(set.children?.map((child) => child.name), [
+			"[0]",
+			"… 1 more item",
+			"[2]",
+		]);
+		assertEquals(set.children?.[2].value, 3);
+		assertEquals(bytes.children?.map((child) => child.name), [
+			"[0]",
+			"… 2 more items",
+			"[3]",
+		]);
+	});
+
+	it("should not read the children left out", () => {
+		let reads = 0;
+		const obj = {
+			get a() {
+				return ++reads;
+			},
+			get b() {
+				return ++reads;
+			},
+		};
+		const result = buildPropertyTree(obj, { maxDepth: 1, maxChildren: 1 });
+		assertEquals(reads, 1);
+		assertEquals(result.children?.length, 2);
+	});
+
+	it("should not add an elision node when every child fits", () => {
+		const result = buildPropertyTree([1, 2, 3], {
+			maxDepth: 1,
+			maxChildren: { head: 2, tail: 1 },
+		});
+		assertEquals(result.children?.length, 3);
+	});
+
+	it("should throw for invalid child limits", () => {
+		assertThrows(
+			() => buildPropertyTree({}, { maxChildren: -1 }),
+			RangeError,
+			"Invalid maxChildren: -1",
+		);
+		assertThrows(
+			() => buildPropertyTree({}, { maxArrayItems: { head: 1, tail: 0.5 } }),
+			RangeError,
+			"Invalid maxArrayItems",
+		);
+	});
+
+	it("should stop once maxNodes is reached and mark unexpanded objects", () => {
+		const result = buildPropertyTree(
+			{ a: { x: 1 }, b: { y: 2 } },
+			{ maxDepth: 3, maxNodes: 3 },
+		);
+		assertEquals(result.children?.map((child) => child.name), ["a", "b"]);
+		for (const child of result.children ?? []) {
+			assertEquals(child.value, TRUNCATED_MARKER);
+			assertEquals(child.children, undefined);
+		}
+		assertEquals(result.value, undefined);
+		assertEquals(result.truncation?.reason, "maxNodes");
+		assertEquals(result.truncation?.nodeCount, 3);
+		assertEquals(result.truncation?.truncatedCount, 2);
+	});
+
+	it("should mark objects whose children were only partly processed", () => {
+		const result = buildPropertyTree({ a: 1, b: 2, c: 3 }, { maxNodes: 2 });
+		assertEquals(result.value, TRUNCATED_MARKER);
+		assertEquals(result.children?.map((child) => child.name), ["a"]);
+		assertEquals(result.truncation?.truncatedCount, 1);
+	});
+
+	it("should stop once maxTimeMs has elapsed", () => {
+		const result = buildPropertyTree({ a: 1 }, { maxTimeMs: 0 });
+		assertEquals(result.value, TRUNCATED_MARKER);
+		assertEquals(result.children, undefined);
+		assertEquals(result.truncation?.reason, "maxTimeMs");
+		assertEquals(result.truncation?.nodeCount, 1);
+	});
+
+	it("should not report truncation when the tree fits the budgets", () => {
+		const result = buildPropertyTree(
+			{ a: [1, 2], b: new Map([["k", "v"]]) },
+			{ maxDepth: 3, maxNodes: 7, maxTimeMs: 60_000 },
+		);
+		assertEquals(result.truncation, undefined);
+		assertEquals(result.children?.[1].children?.length, 1);
+	});
+
+	it("should throw for invalid budgets", () => {
+		assertThrows(
+			() => buildPropertyTree({}, { maxNodes: 0 }),
+			RangeError,
+			"Invalid maxNodes: 0",
+		);
+		assertThrows(
+			() => buildPropertyTree({}, { maxTimeMs: -1 }),
+			RangeError,
+			"Invalid maxTimeMs: -1",
+		);
+	});
 });
 
 describe("formatPropertyTreeToString", () => {
@@ -393,7 +1202,7 @@ describe("formatPropertyTreeToString", () => {
 		const expected = `
 └─ root (object)
    ├─ safe (string): "ok"
-   └─ problematic (error): [Access Error]
+   └─ problematic (error): [Access Error: Error: Getter failed!]
 `.trim();
 		assertEquals(formatPropertyTreeToString(tree), expected);
 	});
@@ -402,8 +1211,8 @@ describe("formatPropertyTreeToString", () => {
 		const tree = buildPropertyTree({ myFunc: () => {} }, 2);
 		const expected = `
 └─ root (object)
-   └─ myFunc (function)
-`.trim(); // Functions show type but no value or children
+   └─ myFunc (function arrow myFunc/0)
+`.trim(); // Functions show their kind, name and arity
 		assertEquals(formatPropertyTreeToString(tree), expected);
 	});
 
@@ -428,6 +1237,156 @@ describe("formatPropertyTreeToString", () => {
 └─ root (object)
    ├─ long (string): "This is a very long string that definitely exceeds..."
    └─ multi (string): "First line\\nSecond line"
+`.trim();
+		assertEquals(formatPropertyTreeToString(tree), expected);
+	});
+
+	it("should mark symbol, non-enumerable and inherited properties", () => {
+		const proto = { inheritedProp: 1 };
+		const testObj = Object.create(proto);
+		testObj[Symbol("id")] = 7;
+		Object.defineProperty(testObj, "hidden", {
+			value: "h",
+			enumerable: false,
+			writable: true,
+			configurable: true,
+		});
+		const tree = buildPropertyTree(testObj, {
+			maxDepth: 1,
+			includeSymbols: true,
+			includeNonEnumerable: true,
+			includeInherited: true,
+		});
+		const expected = `
+└─ root (object)
+   ├─ hidden (string) [non-enumerable]: "h"
+   ├─ [Symbol(id)] (number): 7
+   └─ inheritedProp (number) [inherited]: 1
+`.trim();
+		assertEquals(formatPropertyTreeToString(tree), expected);
+	});
+
+	it("should format built-in types", () => {
+		const tree = buildPropertyTree(
+			{
+				settings: new Map([["theme", "dark"]]),
+				tags: new Set(["a"]),
+				created: new Date("2024-01-02T03:04:05.000Z"),
+				pattern: /x/,
+			},
+			2,
+		);
+		const expected = `
+└─ root (object)
+   ├─ settings (map)
+   │  └─ "theme" => (string): "dark"
+   ├─ tags (set)
+   │  └─ [0] (string): "a"
+   ├─ created (date): 2024-01-02T03:04:05.000Z
+   └─ pattern (regexp): /x/
+`.trim();
+		assertEquals(formatPropertyTreeToString(tree), expected);
+	});
+
+	it("should show class names and null prototypes", () => {
+		class User {
+			name = "Alice";
+		}
+		const tree = buildPropertyTree(
+			{ user: new User(), bare: Object.create(null) },
+			2,
+		);
+		const expected = `
+└─ root (object)
+   ├─ user (object User)
+   │  └─ name (string): "Alice"
+   └─ bare (object [null prototype])
+`.trim();
+		assertEquals(formatPropertyTreeToString(tree), expected);
+	});
+
+	it("should hide class names when showClassNames is false", () => {
+		class User {}
+		const tree = buildPropertyTree({ user: new User() }, 1);
+		const expected = `
+└─ root (object)
+   └─ user (object)
+`.trim();
+		assertEquals(
+			formatPropertyTreeToString(tree, { showClassNames: false }),
+			expected,
+		);
+	});
+
+	it("should show accessor markers and annotate read-only and frozen properties", () => {
+		const testObj = {
+			get lazy() {
+				return 1;
+			},
+			frozen: Object.freeze({ a: 1 }),
+		};
+		Object.defineProperty(testObj, "constant", {
+			value: "c",
+			enumerable: true,
+			writable: false,
+			configurable: true,
+		});
+		const tree = buildPropertyTree(testObj, { maxDepth: 2, accessors: "skip" });
+		const expected = `
+└─ root (object)
+   ├─ lazy (accessor): [Getter]
+   ├─ frozen (object)
+   │  └─ a (number) [frozen]: 1
+   └─ constant (string) [read-only]: "c"
+`.trim();
+		assertEquals(formatPropertyTreeToString(tree), expected);
+	});
+
+	it("should format deduplicated references with their id and path", () => {
+		const settings = { theme: "dark" };
+		const user: Record<string, unknown> = { settings };
+		user.self = user;
+		const tree = buildPropertyTree(
+			{ user, "default settings": settings, cache: new Map([["u", user]]) },
+			{ maxDepth: 3, references: "dedupe" },
+		);
+		const expected = `
+└─ root (object)
+   ├─ user (object) <ref *2>
+   │  ├─ settings (object): [Ref *1 → root["default settings"]]
+   │  └─ self (object): [Circular *2 → root.user]
+   ├─ default settings (object) <ref *1>
+   │  └─ theme (string): "dark"
+   └─ cache (map)
+      └─ "u" => (object): [Ref *2 → root.user]
+`.trim();
+		assertEquals(formatPropertyTreeToString(tree), expected);
+	});
+
+	it("should format elision nodes as summaries", () => {
+		const tree = buildPropertyTree(
+			{ list: Array.from({ length: 1200 }, (_, i) => i) },
+			{ maxDepth: 2, maxArrayItems: { head: 1, tail: 1 } },
+		);
+		const expected = `
+└─ root (object)
+   └─ list (array)
+      ├─ [0] (number): 0
+      ├─ … 1,198 more items
+      └─ [1199] (number): 1199
+`.trim();
+		assertEquals(formatPropertyTreeToString(tree), expected);
+		assertEquals(
+			formatPropertyTreeToString(tree, { connectors: "ascii" }).split("\n")[3],
+			"      +- ... 1,198 more items",
+		);
+	});
+
+	it("should format truncated trees with the reason on the root", () => {
+		const tree = buildPropertyTree({ a: { x: 1 }, b: 2 }, { maxDepth: 3, maxNodes: 2 });
+		const expected = `
+└─ root (object) [truncated: maxNodes]: [Truncated]
+   └─ a (object): [Truncated]
 `.trim();
 		assertEquals(formatPropertyTreeToString(tree), expected);
 	});
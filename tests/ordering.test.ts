@@ -0,0 +1,118 @@
+import { assertEquals, assertStrictEquals } from "jsr:@std/assert";
+import { describe, it } from "jsr:@std/testing/bdd";
+import {
+	buildPropertyTree,
+	formatPropertyTreeLines,
+	formatPropertyTreeToString,
+	type KeyOrder,
+	type PropertyTreeNode,
+	renderPropertyTree,
+	sortPropertyTree,
+} from "../mod.ts";
+
+const obj = {
+	item10: 1,
+	log: () => {},
+	Beta: [3, 1, 2],
+	item2: "two",
+	alpha: { z: 1, a: 2 },
+};
+
+/** Returns the names of a node's children. */
+function childNames(node: PropertyTreeNode | undefined): string[] {
+	return node?.children?.map((child) => child.name) ?? [];
+}
+
+describe("order", () => {
+	const cases: [KeyOrder, string[]][] = [
+		["insertion", ["item10", "log", "Beta", "item2", "alpha"]],
+		["alphabetical", ["alpha", "Beta", "item10", "item2", "log"]],
+		["natural", ["alpha", "Beta", "item2", "item10", "log"]],
+		["type", ["item10", "item2", "alpha", "Beta", "log"]],
+		[(a, b) => b.name.length - a.name.length, ["item10", "item2", "alpha", "Beta", "log"]],
+	];
+
+	for (const [order, expected] of cases) {
+		it(`should order properties with ${typeof order === "function" ? "a comparator" : order}`, () => {
+			assertEquals(childNames(buildPropertyTree(obj, { order })), expected);
+		});
+	}
+
+	it("should order nested objects and keep array elements in index order", () => {
+		const tree = buildPropertyTree(obj, { order: "alphabetical" });
+		const [alpha, beta] = tree.children ?? [];
+		assertEquals(childNames(alpha), ["a", "z"]);
+		assertEquals(childNames(beta), ["[0]", "[1]", "[2]"]);
+	});
+
+	it("should put symbol keys last", () => {
+		const tree = buildPropertyTree({ [Symbol("a")]: 1, b: 2, a: 3 }, {
+			includeSymbols: true,
+			order: "alphabetical",
+		});
+		assertEquals(childNames(tree), ["a", "b", "Symbol(a)"]);
+	});
+
+	it("should keep elision nodes in place", () => {
+		const tree = buildPropertyTree({ d: 1, c: 2, b: 3, a: 4 }, {
+			maxChildren: 3,
+			order: "alphabetical",
+		});
+		assertEquals(childNames(tree), ["b", "c", "d", "… 1 more property"]);
+	});
+
+	it("should keep Map entries in insertion order", () => {
+		const tree = buildPropertyTree(new Map([["b", 1], ["a", 2]]), { order: "alphabetical" });
+		assertEquals(childNames(tree), ['"b" =>', '"a" =>']);
+	});
+});
+
+describe("FormatOptions.order", () => {
+	const tree = buildPropertyTree(obj, 1);
+
+	it("should order properties when formatting", () => {
+		assertEquals(
+			formatPropertyTreeToString(tree, { order: "natural" }),
+			`
+└─ root (object)
+   ├─ alpha (object)
+   ├─ Beta (array)
+   ├─ item2 (string): "two"
+   ├─ item10 (number): 1
+   └─ log (function arrow log/0)
+`.trim(),
+		);
+		assertEquals(childNames(tree), ["item10", "log", "Beta", "item2", "alpha"]);
+	});
+
+	it("should be applied by streaming output and renderers", () => {
+		const text = formatPropertyTreeToString(tree, { order: "type" });
+		assertEquals([...formatPropertyTreeLines(tree, { order: "type" })].join("\n"), text);
+		assertEquals(
+			renderPropertyTree(tree, "markdown", { order: "type" }),
+			[
+				"- `root (object)`",
+				"  - `item10 (number): 1`",
+				'  - `item2 (string): "two"`',
+				"  - `alpha (object)`",
+				"  - `Beta (array)`",
+				"  - `log (function arrow log/0)`",
+			].join("\n"),
+		);
+	});
+});
+
+describe("sortPropertyTree", () => {
+	it("should return a sorted copy", () => {
+		const tree = buildPropertyTree(obj);
+		const sorted = sortPropertyTree(tree, "alphabetical");
+		assertEquals(childNames(sorted), ["alpha", "Beta", "item10", "item2", "log"]);
+		assertEquals(childNames(sorted.children?.[0]), ["a", "z"]);
+		assertEquals(childNames(tree), ["item10", "log", "Beta", "item2", "alpha"]);
+	});
+
+	it("should return the tree itself for insertion order", () => {
+		const tree = buildPropertyTree(obj);
+		assertStrictEquals(sortPropertyTree(tree, "insertion"), tree);
+	});
+});
@@ -0,0 +1,167 @@
+import { assertEquals, assertExists, assertThrows } from "jsr:@std/assert";
+import { describe, it } from "jsr:@std/testing/bdd";
+import {
+	buildPropertyTree,
+	findNodes,
+	getNodeAtPath,
+	walkPropertyTree,
+} from "../mod.ts";
+
+// --- Shared Fixture ---
+const testObj = {
+	id: 123,
+	user: {
+		name: "Alice",
+		roles: ["admin", "editor"],
+	},
+	"odd key": { "a/b": "slash", "c~d": "tilde" },
+	cache: new Map<unknown, unknown>([["theme", "dark"], [1, "one"]]),
+	get broken() {
+		throw new Error("Getter failed!");
+	},
+};
+
+describe("getNodeAtPath", () => {
+	const tree = buildPropertyTree(testObj, 3);
+
+	it("should return the root for an empty path", () => {
+		assertEquals(getNodeAtPath(tree, []), tree);
+		assertEquals(getNodeAtPath(tree, ""), tree);
+		assertEquals(getNodeAtPath(tree, "root"), tree);
+	});
+
+	it("should resolve segment arrays", () => {
+		const node = getNodeAtPath(tree, ["user", "roles", 1]);
+		assertExists(node);
+		assertEquals(node.value, "editor");
+		assertEquals(getNodeAtPath(tree, [{ mapKey: 1 }])?.value, undefined); // Not a top-level entry
+		assertEquals(getNodeAtPath(tree, ["cache", { mapKey: 1 }])?.value, "one");
+	});
+
+	it("should resolve JavaScript property access paths", () => {
+		assertEquals(getNodeAtPath(tree, "user.roles[1]")?.value, "editor");
+		assertEquals(getNodeAtPath(tree, "root.user.roles[0]")?.value, "admin");
+		assertEquals(getNodeAtPath(tree, '["odd key"]["a/b"]')?.value, "slash");
+		assertEquals(getNodeAtPath(tree, 'cache.get("theme")')?.value, "dark");
+		assertEquals(getNodeAtPath(tree, "cache.get(1)")?.value, "one");
+	});
+
+	it("should resolve JSON Pointers", () => {
+		assertEquals(getNodeAtPath(tree, "/user/roles/1")?.value, "editor");
+		assertEquals(getNodeAtPath(tree, "/odd key/a~1b")?.value, "slash");
+		assertEquals(getNodeAtPath(tree, "/odd key/c~0d")?.value, "tilde");
+		assertEquals(getNodeAtPath(tree, "/cache/theme")?.value, "dark");
+		assertEquals(getNodeAtPath(tree, "/cache/1")?.value, "one");
+	});
+
+	it("should resolve the recorded path of every node", () => {
+		walkPropertyTree(tree, (node) => {
+			assertExists(node.path);
+			assertExists(node.jsPath);
+			assertExists(node.jsonPointer);
+			assertEquals(getNodeAtPath(tree, node.path), node);
+			assertEquals(getNodeAtPath(tree, node.jsPath), node);
+			assertEquals(getNodeAtPath(tree, node.jsonPointer), node);
+		});
+	});
+
+	it("should return undefined for missing nodes", () => {
+		assertEquals(getNodeAtPath(tree, "user.missing"), undefined);
+		assertEquals(getNodeAtPath(tree, "id.nested"), undefined);
+		assertEquals(getNodeAtPath(tree, "/user/roles/5"), undefined);
+		// Beyond the depth the tree was built to
+		const shallow = buildPropertyTree(testObj, 1);
+		assertEquals(getNodeAtPath(shallow, "user.name"), undefined);
+	});
+
+	it("should fall back to a relative path when a top-level property shares the root's name", () => {
+		const rootNamed = buildPropertyTree({ root: { a: 1 } }, 2);
+		assertEquals(getNodeAtPath(rootNamed, "root.root.a")?.value, 1);
+		assertEquals(getNodeAtPath(rootNamed, "root.a")?.value, 1); // No "a" on the root itself
+		assertEquals(getNodeAtPath(rootNamed, "root"), rootNamed);
+	});
+
+	it("should throw for malformed paths", () => {
+		assertThrows(() => getNodeAtPath(tree, "user..name"), SyntaxError);
+		assertThrows(() => getNodeAtPath(tree, "user[abc]"), SyntaxError);
+	});
+});
+
+describe("findNodes", () => {
+	it("should find every node matching a predicate in depth-first order", () => {
+		const tree = buildPropertyTree(testObj, 3);
+		const strings = findNodes(tree, (node) => node.type === "string");
+		assertEquals(strings.map((node) => node.jsPath), [
+			"root.user.name",
+			"root.user.roles[0]",
+			"root.user.roles[1]",
+			'root["odd key"]["a/b"]',
+			'root["odd key"]["c~d"]',
+			'root.cache.get("theme")',
+			"root.cache.get(1)",
+		]);
+
+		const errors = findNodes(tree, (node) => node.type === "error");
+		assertEquals(errors.length, 1);
+		assertEquals(errors[0].name, "broken");
+	});
+
+	it("should pass the parent and depth to the predicate", () => {
+		const tree = buildPropertyTree(testObj, 3);
+		const deep = findNodes(tree, (_node, { depth }) => depth === 3);
+		assertEquals(deep.map((node) => node.value), ["admin", "editor"]);
+		const rootChildren = findNodes(tree, (_node, { parent }) => parent === tree);
+		assertEquals(rootChildren.length, 5);
+	});
+});
+
+describe("walkPropertyTree", () => {
+	it("should call enter and leave callbacks in order", () => {
+		const tree = buildPropertyTree({ a: { b: 1 }, c: 2 }, 2);
+		const events: string[] = [];
+		walkPropertyTree(tree, {
+			enter: (node, { depth, index }) => {
+				events.push(`enter ${node.name} ${depth} ${index}`);
+			},
+			leave: (node) => {
+				events.push(`leave ${node.name}`);
+			},
+		});
+		assertEquals(events, [
+			"enter root 0 0",
+			"enter a 1 0",
+			"enter b 2 0",
+			"leave b",
+			"leave a",
+			"enter c 1 1",
+			"leave c",
+			"leave root",
+		]);
+	});
+
+	it("should skip children when enter returns false", () => {
+		const tree = buildPropertyTree({ a: { b: 1 }, c: 2 }, 2);
+		const visited: string[] = [];
+		walkPropertyTree(tree, (node) => {
+			visited.push(node.name);
+			return node.name !== "a";
+		});
+		assertEquals(visited, ["root", "a", "c"]);
+	});
+
+	it("should walk very deep trees without overflowing the stack", () => {
+		// Built by hand, as buildPropertyTree's per-node paths make deep trees costly
+		const tree = { name: "root", type: "object" as const, children: [] };
+		let current: { children: unknown[] } = tree;
+		for (let i = 0; i < 100000; i++) {
+			const next = { name: "next", type: "object" as const, children: [] };
+			current.children.push(next);
+			current = next;
+		}
+		let count = 0;
+		walkPropertyTree(tree, () => {
+			count++;
+		});
+		assertEquals(count, 100001);
+	});
+});
@@ -0,0 +1,133 @@
+import { assertEquals } from "jsr:@std/assert";
+import { describe, it } from "jsr:@std/testing/bdd";
+import {
+	buildPropertyTree,
+	DEFAULT_REDACT_PATTERNS,
+	formatPropertyTreeToString,
+	getNodeAtPath,
+	parsePropertyTree,
+	renderPropertyTree,
+	serializePropertyTree,
+} from "../mod.ts";
+
+const REDACTED_MARKER = "[Redacted]";
+
+describe("redaction", () => {
+	it("should redact properties by key name", () => {
+		const tree = buildPropertyTree(
+			{ user: "alice", password: "hunter2" },
+			{ redact: ["password"] },
+		);
+		const node = getNodeAtPath(tree, "password");
+		assertEquals(node?.type, "redacted");
+		assertEquals(node?.value, REDACTED_MARKER);
+		assertEquals(node?.jsPath, "root.password");
+		assertEquals(getNodeAtPath(tree, "user")?.value, "alice");
+	});
+
+	it("should redact properties matching a regular expression", () => {
+		const tree = buildPropertyTree(
+			{ apiKey: "k", API_KEY: "k", keys: ["a"] },
+			{ redact: [/api_?key/i] },
+		);
+		assertEquals(
+			tree.children?.map((child) => child.type),
+			["redacted", "redacted", "array"],
+		);
+	});
+
+	it("should redact values matching a path pattern", () => {
+		const obj = {
+			request: { headers: { authorization: "Bearer x", accept: "*/*" } },
+			authorization: "kept",
+		};
+		const tree = buildPropertyTree(obj, {
+			maxDepth: 4,
+			redact: ["*.headers.authorization"],
+		});
+		assertEquals(getNodeAtPath(tree, "request.headers.authorization")?.type, "redacted");
+		assertEquals(getNodeAtPath(tree, "request.headers.accept")?.value, "*/*");
+		assertEquals(getNodeAtPath(tree, "authorization")?.value, "kept");
+	});
+
+	it("should match any number of segments with **", () => {
+		const obj = { a: { token: 1 }, b: { c: [{ token: 2 }] }, token: 3 };
+		const tree = buildPropertyTree(obj, { maxDepth: 5, redact: ["**.token"] });
+		assertEquals(getNodeAtPath(tree, "a.token")?.type, "redacted");
+		assertEquals(getNodeAtPath(tree, "b.c[0].token")?.type, "redacted");
+		assertEquals(getNodeAtPath(tree, "token")?.type, "redacted");
+	});
+
+	it("should never invoke the getters of redacted properties", () => {
+		let reads = 0;
+		const obj = {
+			get secret() {
+				reads++;
+				return "s";
+			},
+		};
+		const tree = buildPropertyTree(obj, { redact: ["secret"] });
+		assertEquals(reads, 0);
+		assertEquals(tree.children?.[0].value, REDACTED_MARKER);
+		assertEquals(tree.children?.[0].descriptor?.kind, "accessor");
+	});
+
+	it("should redact Map entries, array elements and Set members", () => {
+		const obj = {
+			headers: new Map([["Authorization", "Bearer x"], ["Accept", "*/*"]]),
+			list: ["a", "b"],
+			set: new Set(["x"]),
+		};
+		const tree = buildPropertyTree(obj, {
+			redact: [/^authorization$/i, "list.1", "set.0"],
+		});
+		assertEquals(
+			formatPropertyTreeToString(tree),
+			`
+└─ root (object)
+   ├─ headers (map)
+   │  ├─ "Authorization" => (redacted): [Redacted]
+   │  └─ "Accept" => (string): "*/*"
+   ├─ list (array)
+   │  ├─ [0] (string): "a"
+   │  └─ [1] (redacted): [Redacted]
+   └─ set (set)
+      └─ [0] (redacted): [Redacted]
+`.trim(),
+		);
+	});
+
+	it("should redact common secrets with the default patterns", () => {
+		const obj = {
+			username: "alice",
+			password: "p",
+			accessToken: "t",
+			clientSecret: "s",
+			"x-api-key": "k",
+			headers: { Authorization: "a", cookie: "c", bypass: false },
+		};
+		const tree = buildPropertyTree(obj, { redact: DEFAULT_REDACT_PATTERNS });
+		const redacted = formatPropertyTreeToString(tree)
+			.split("\n")
+			.filter((line) => line.includes(REDACTED_MARKER)).length;
+		assertEquals(redacted, 6);
+		assertEquals(getNodeAtPath(tree, "username")?.value, "alice");
+		assertEquals(getNodeAtPath(tree, "headers.bypass")?.value, false);
+	});
+
+	it("should show the marker in every output format", () => {
+		const tree = buildPropertyTree({ password: "hunter2" }, { redact: ["password"] });
+		for (const format of ["text", "markdown", "html", "dot", "mermaid"] as const) {
+			const output = renderPropertyTree(tree, format);
+			assertEquals(output.includes("hunter2"), false);
+			assertEquals(output.includes(REDACTED_MARKER), true);
+		}
+		const parsed = parsePropertyTree(serializePropertyTree(tree));
+		assertEquals(parsed.children?.[0].value, REDACTED_MARKER);
+	});
+
+	it("should not redact anything by default", () => {
+		const tree = buildPropertyTree({ password: "hunter2" });
+		assertEquals(tree.children?.[0].value, "hunter2");
+	});
+});
@@ -0,0 +1,170 @@
+import { assertEquals, assertStringIncludes } from "jsr:@std/assert";
+import { describe, it } from "jsr:@std/testing/bdd";
+import {
+	buildPropertyTree,
+	dotRenderer,
+	formatPropertyTreeToString,
+	htmlRenderer,
+	markdownRenderer,
+	mermaidRenderer,
+	renderPropertyTree,
+	textRenderer,
+} from "../mod.ts";
+
+const createCircularObject = () => {
+	const obj: Record<string, unknown> = { id: 1, user: { name: "Alice" } };
+	(obj.user as Record<string, unknown>).self = obj.user;
+	return obj;
+};
+
+describe("renderPropertyTree", () => {
+	it("should use the text renderer by default", () => {
+		const tree = buildPropertyTree({ a: 1 }, 1);
+		assertEquals(renderPropertyTree(tree), formatPropertyTreeToString(tree));
+		assertEquals(textRenderer.render(tree), formatPropertyTreeToString(tree));
+	});
+
+	it("should accept custom renderers", () => {
+		const tree = buildPropertyTree({ a: 1, b: 2 }, 1);
+		const namesRenderer = {
+			render: (node: typeof tree) => node.children!.map((c) => c.name).join(","),
+		};
+		assertEquals(renderPropertyTree(tree, namesRenderer), "a,b");
+	});
+
+	it("should pass format options to renderers", () => {
+		class User {}
+		const tree = buildPropertyTree(new User(), 0);
+		assertEquals(renderPropertyTree(tree, "markdown"), "- `root (object User)`");
+		assertEquals(
+			renderPropertyTree(tree, "markdown", { showClassNames: false }),
+			"- `root (object)`",
+		);
+	});
+});
+
+describe("markdownRenderer", () => {
+	it("should render a nested list of code spans", () => {
+		const tree = buildPropertyTree(createCircularObject(), 3);
+		const expected = `
+- \`root (object)\`
+  - \`id (number): 1\`
+  - \`user (object)\`
+    - \`name (string): "Alice"\`
+    - \`self (object): [Circular Reference]\`
+`.slice(1, -1);
+		assertEquals(markdownRenderer.render(tree), expected);
+	});
+
+	it("should fence labels containing backticks", () => {
+		const tree = buildPropertyTree({ code: "a`b" }, 1);
+		assertEquals(
+			markdownRenderer.render(tree).split("\n")[1],
+			'  - `` code (string): "a`b" ``',
+		);
+	});
+});
+
+describe("htmlRenderer", () => {
+	it("should render a standalone document with collapsible branches", () => {
+		const html = htmlRenderer.render(buildPropertyTree({ list: [1] }, 2, "data"));
+		assertStringIncludes(html, "<!DOCTYPE html>");
+		assertStringIncludes(html, "<title>data</title>");
+		const expected = `
+	<ul class="property-tree">
+		<li><details open><summary><span class="name">data</span> <span class="type">(object)</span></summary>
+			<ul>
+				<li><details open><summary><span class="name">list</span> <span class="type">(array)</span></summary>
+					<ul>
+						<li><span class="name">[0]</span> <span class="type">(number)</span>: <span class="value">1</span></li>
+					</ul>
+				</details></li>
+			</ul>
+		</details></li>
+	</ul>
+`.slice(1, -1);
+		assertStringIncludes(html, expected);
+	});
+
+	it("should escape labels and show annotations", () => {
+		const shared = { b: 1 };
+		const html = htmlRenderer.render(
+			buildPropertyTree({ "<a>": '"&"', x: shared, y: shared }, {
+				maxDepth: 2,
+				references: "dedupe",
+			}),
+		);
+		assertStringIncludes(
+			html,
+			'<span class="name">&lt;a&gt;</span> <span class="type">(string)</span>: <span class="value">&quot;&quot;&amp;&quot;&quot;</span>',
+		);
+		assertStringIncludes(html, '<span class="annotations">&lt;ref *1&gt;</span>');
+	});
+});
+
+describe("dotRenderer", () => {
+	it("should render circular references as back-edges", () => {
+		const tree = buildPropertyTree(createCircularObject(), 3);
+		const expected = `
+digraph "root" {
+	node [shape=box, fontname="monospace"];
+	n0 [label="root (object)"];
+	n1 [label="id (number): 1"];
+	n2 [label="user (object)"];
+	n3 [label="name (string): \\"Alice\\""];
+	n0 -> n1;
+	n0 -> n2;
+	n2 -> n3;
+	n2 -> n2 [label="self", style=dashed, constraint=false];
+}
+`.slice(1, -1);
+		assertEquals(dotRenderer.render(tree), expected);
+	});
+
+	it("should render shared references as edges to the expanded node", () => {
+		const shared = { flag: true };
+		const tree = buildPropertyTree({ a: shared, b: shared }, {
+			maxDepth: 2,
+			references: "dedupe",
+		});
+		const dot = dotRenderer.render(tree);
+		assertStringIncludes(dot, 'n1 [label="a (object) <ref *1>"];');
+		assertStringIncludes(dot, 'n0 -> n1 [label="b", style=dashed, constraint=false];');
+	});
+
+	it("should draw references without a target in the tree as nodes", () => {
+		const tree = {
+			name: "root",
+			type: "object" as const,
+			children: [{
+				name: "self",
+				type: "object" as const,
+				value: "[Circular Reference]",
+				reference: { kind: "circular" as const, path: "elsewhere" },
+			}],
+		};
+		assertStringIncludes(
+			dotRenderer.render(tree),
+			'n1 [label="self (object): [Circular Reference]"];\n\tn0 -> n1;',
+		);
+	});
+});
+
+describe("mermaidRenderer", () => {
+	it("should render a flowchart with back-edges and escaped labels", () => {
+		const obj = createCircularObject();
+		(obj.user as Record<string, unknown>).name = 'A "#1" <b>';
+		const expected = `
+flowchart TD
+	n0["root (object)"]
+	n1["id (number): 1"]
+	n2["user (object)"]
+	n3["name (string): #quot;A #quot;#35;1#quot; #lt;b#gt;#quot;"]
+	n0 --> n1
+	n0 --> n2
+	n2 --> n3
+	n2 -.->|"self"| n2
+`.slice(1, -1);
+		assertEquals(mermaidRenderer.render(buildPropertyTree(obj, 3)), expected);
+	});
+});
@@ -0,0 +1,182 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import { describe, it } from "jsr:@std/testing/bdd";
+import {
+	buildPropertyTree,
+	formatPropertyTreeToString,
+	parsePropertyTree,
+	SERIALIZED_TREE_VERSION,
+	serializePropertyTree,
+} from "../mod.ts";
+import type { PropertyTreeNode } from "../src/types.ts";
+
+describe("serializePropertyTree", () => {
+	it("should write a versioned document", () => {
+		const document = JSON.parse(serializePropertyTree(buildPropertyTree({ a: 1 }, 1)));
+		assertEquals(document.format, "object-property-tree");
+		assertEquals(document.version, SERIALIZED_TREE_VERSION);
+		assertEquals(document.root.name, "root");
+		assertEquals(document.root.children[0], {
+			name: "a",
+			type: "number",
+			value: 1,
+			path: ["a"],
+			jsPath: "root.a",
+			jsonPointer: "/a",
+			descriptor: { kind: "data", writable: true, enumerable: true, configurable: true },
+		});
+	});
+
+	it("should encode values JSON can't represent", () => {
+		const tree = buildPropertyTree({
+			big: 10n,
+			nothing: undefined,
+			nan: NaN,
+			inf: -Infinity,
+			negZero: -0,
+			sym: Symbol("id"),
+			global: Symbol.for("app.id"),
+			anonymous: Symbol(),
+		}, 1);
+		const values = JSON.parse(serializePropertyTree(tree)).root.children.map(
+			(child: { value: unknown }) => child.value,
+		);
+		assertEquals(values, [
+			{ $type: "bigint", value: "10" },
+			{ $type: "undefined" },
+			{ $type: "number", value: "NaN" },
+			{ $type: "number", value: "-Infinity" },
+			{ $type: "number", value: "-0" },
+			{ $type: "symbol", description: "id" },
+			{ $type: "symbol", description: "app.id", registered: true },
+			{ $type: "symbol" },
+		]);
+	});
+
+	it("should encode markers, but not strings that look like markers", () => {
+		const selfRef: Record<string, unknown> = { text: "[Circular Reference]" };
+		selfRef.self = selfRef;
+		Object.defineProperty(selfRef, "broken", {
+			get() {
+				throw new Error("nope");
+			},
+			enumerable: true,
+		});
+		const children = JSON.parse(serializePropertyTree(buildPropertyTree(selfRef, 2)))
+			.root.children;
+		assertEquals(children[0].value, "[Circular Reference]");
+		assertEquals(children[1].value, { $marker: "circular" });
+		assertEquals(children[2].value, { $marker: "access-error" });
+	});
+});
+
+describe("parsePropertyTree", () => {
+	it("should round-trip a tree to an equal tree", () => {
+		const complexObject: Record<string, unknown> = {
+			id: 123n,
+			user: { name: "Alice", roles: ["admin", "editor"] },
+			data: [null, undefined, NaN],
+			cache: new Map<unknown, unknown>([["a", 1], [2n, 2], [undefined, 3]]),
+			tags: new Set(["x"]),
+			created: new Date(0),
+			method: () => "hello",
+		};
+		complexObject.self = complexObject;
+		const tree = buildPropertyTree(complexObject, { maxDepth: 3, references: "dedupe" });
+		assertEquals(parsePropertyTree(serializePropertyTree(tree)), tree);
+	});
+
+	it("should round-trip to a tree that formats identically", () => {
+		const shared = { flag: true };
+		const value = {
+			sym: Symbol("id"),
+			[Symbol.for("key")]: "symbol key",
+			objectKeys: new Map([[{}, "object key"]]),
+			a: shared,
+			b: shared,
+			get computed() {
+				return 1;
+			},
+		};
+		const tree = buildPropertyTree(value, {
+			maxDepth: 3,
+			includeSymbols: true,
+			accessors: "skip",
+			references: "dedupe",
+		});
+		const parsed = parsePropertyTree(serializePropertyTree(tree, 2));
+		assertEquals(formatPropertyTreeToString(parsed), formatPropertyTreeToString(tree));
+		assertEquals(parsed.children![0].value?.toString(), "Symbol(id)");
+		assertEquals(parsed.children![5].path, [Symbol.for("key")]);
+		assertEquals(parsed.children![1].children![0].path, [
+			"objectKeys",
+			{ mapKey: {} },
+		]);
+	});
+
+	it("should keep unknown JSON properties", () => {
+		const tree: PropertyTreeNode & { note?: string } = {
+			name: "root",
+			type: "object",
+			note: "hello",
+			children: [],
+		};
+		assertEquals(parsePropertyTree(serializePropertyTree(tree)), tree);
+	});
+
+	it("should reject documents that aren't serialized trees", () => {
+		assertThrows(() => parsePropertyTree("{"), SyntaxError);
+		assertThrows(
+			() => parsePropertyTree('{"name":"root","type":"object"}'),
+			SyntaxError,
+			"missing format header",
+		);
+		assertThrows(
+			() => parsePropertyTree('{"format":"object-property-tree","version":2,"root":{}}'),
+			SyntaxError,
+			"Unsupported serialized property tree version: 2",
+		);
+		assertThrows(
+			() => parsePropertyTree('{"format":"object-property-tree","version":1,"root":{"name":"root"}}'),
+			SyntaxError,
+			"expected an object with a name and type",
+		);
+		assertThrows(
+			() =>
+				parsePropertyTree(
+					'{"format":"object-property-tree","version":1,"root":{"name":"root","type":"string","value":{"$type":"date"}}}',
+				),
+			SyntaxError,
+			"Invalid serialized value",
+		);
+		assertThrows(
+			() =>
+				parsePropertyTree(
+					'{"format":"object-property-tree","version":1,"root":{"name":"root","type":"symbol","value":{"$type":"symbol","registered":true}}}',
+				),
+			SyntaxError,
+			"Invalid serialized value",
+		);
+	});
+
+	it("should reject malformed numbers and bigints", () => {
+		const parseValue = (value: string) =>
+			parsePropertyTree(
+				`{"format":"object-property-tree","version":1,"root":{"name":"root","type":"number","value":${value}}}`,
+			);
+		for (
+			const value of [
+				'{"$type":"number","value":"oops"}',
+				'{"$type":"number","value":"1"}',
+				'{"$type":"number"}',
+				'{"$type":"bigint"}',
+				'{"$type":"bigint","value":1.5}',
+				'{"$type":"bigint","value":"1.5"}',
+				'{"$type":"bigint","value":""}',
+			]
+		) {
+			assertThrows(() => parseValue(value), SyntaxError, "Invalid serialized value");
+		}
+		assertEquals(parseValue('{"$type":"number","value":"-Infinity"}').value, -Infinity);
+		assertEquals(parseValue('{"$type":"bigint","value":"-12"}').value, -12n);
+	});
+});
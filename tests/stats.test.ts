@@ -0,0 +1,129 @@
+import { assertEquals } from "jsr:@std/assert";
+import { describe, it } from "jsr:@std/testing/bdd";
+import {
+	buildPropertyTree,
+	formatPropertyTreeToString,
+	parsePropertyTree,
+	serializePropertyTree,
+	summarizePropertyTree,
+} from "../mod.ts";
+
+describe("summarizePropertyTree", () => {
+	it("should count nodes, types, depth, cycles and access errors", () => {
+		const obj: Record<string, unknown> = {
+			name: "Alice",
+			tags: ["a", "b"],
+			get broken() {
+				throw new Error("nope");
+			},
+		};
+		obj.self = obj;
+
+		const stats = summarizePropertyTree(buildPropertyTree(obj));
+		assertEquals(stats.nodeCount, 7);
+		assertEquals(stats.typeCounts, { object: 2, string: 3, array: 1, error: 1 });
+		assertEquals(stats.maxDepth, 2);
+		assertEquals(stats.circularCount, 1);
+		assertEquals(stats.accessErrorCount, 1);
+	});
+
+	it("should estimate sizes from string and collection lengths", () => {
+		const tree = buildPropertyTree({ small: "ab", large: { text: "x".repeat(1000) } });
+		const stats = summarizePropertyTree(tree);
+		assertEquals(stats.largestSubtrees.map(({ path }) => path), [
+			"root.large",
+			"root.large.text",
+			"root.small",
+		]);
+		assertEquals(stats.largestSubtrees[1].size > 2000, true);
+		assertEquals(
+			stats.approximateSize,
+			stats.largestSubtrees[0].size + stats.largestSubtrees[2].size + 32,
+		);
+	});
+
+	it("should not count references towards the size", () => {
+		const shared = { data: "x".repeat(100) };
+		const once = summarizePropertyTree(buildPropertyTree({ a: shared }));
+		const twice = summarizePropertyTree(
+			buildPropertyTree({ a: shared, b: shared }, { references: "dedupe" }),
+		);
+		// Only the extra property slot is added.
+		assertEquals(twice.approximateSize, once.approximateSize + 8);
+	});
+});
+
+describe("collectStats", () => {
+	const obj = {
+		list: new Array(1000).fill(0),
+		bytes: new Uint8Array(100),
+		name: "x",
+	};
+
+	it("should record measured sizes and statistics", () => {
+		const tree = buildPropertyTree(obj, { maxDepth: 1, collectStats: true });
+		assertEquals(tree.children?.map((child) => child.size), [8016, 116, 18]);
+		assertEquals(tree.size, 40 + 8016 + 116 + 18);
+		assertEquals(tree.stats, summarizePropertyTree(tree));
+		assertEquals(tree.stats?.largestSubtrees[0], { path: "root.list", size: 8016 });
+	});
+
+	it("should count elements left out by limits", () => {
+		const limited = buildPropertyTree(obj, { maxChildren: 2, collectStats: true });
+		assertEquals(limited.children?.[0].size, 8016 + 2 * 8);
+		assertEquals(limited.children?.[1].size, 116);
+	});
+
+	it("should not record anything by default", () => {
+		const tree = buildPropertyTree(obj, 1);
+		assertEquals(tree.size, undefined);
+		assertEquals(tree.stats, undefined);
+	});
+
+	it("should measure leaf roots", () => {
+		const tree = buildPropertyTree(new ArrayBuffer(64), { collectStats: true });
+		assertEquals(tree.size, 80);
+		assertEquals(tree.stats?.nodeCount, 1);
+	});
+
+	it("should survive serialization", () => {
+		const tree = buildPropertyTree(obj, { maxDepth: 1, collectStats: true });
+		assertEquals(parsePropertyTree(serializePropertyTree(tree)), tree);
+	});
+});
+
+describe("showSizes", () => {
+	it("should annotate expanded nodes with their size", () => {
+		const tree = buildPropertyTree({ a: { text: "x".repeat(2000) }, b: [1] });
+		assertEquals(
+			formatPropertyTreeToString(tree, { showSizes: true }),
+			`
+└─ root (object) [~4.0 KB]
+   ├─ a (object) [~3.9 KB]
+   │  └─ text (string): "xxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx..."
+   └─ b (array) [~32 B]
+      └─ [0] (number): 1
+`.trim(),
+		);
+	});
+
+	it("should annotate measured collections that aren't expanded", () => {
+		const tree = buildPropertyTree(
+			{ bytes: new Uint8Array(2 * 1024 * 1024), flag: true },
+			{ maxDepth: 1, collectStats: true },
+		);
+		assertEquals(
+			formatPropertyTreeToString(tree, { showSizes: true }),
+			`
+└─ root (object) [~2.0 MB]
+   ├─ bytes (typedarray Uint8Array) [~2.0 MB]
+   └─ flag (boolean): true
+`.trim(),
+		);
+	});
+
+	it("should not show sizes by default", () => {
+		const tree = buildPropertyTree({ a: [1] }, { collectStats: true });
+		assertEquals(formatPropertyTreeToString(tree).includes("~"), false);
+	});
+});
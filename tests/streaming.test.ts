@@ -0,0 +1,116 @@
+import { assertEquals } from "jsr:@std/assert";
+import { describe, it } from "jsr:@std/testing/bdd";
+import {
+	buildPropertyTree,
+	formatPropertyTreeLines,
+	formatPropertyTreeToString,
+	type PropertyTreeNode,
+	writePropertyTree,
+} from "../mod.ts";
+
+const obj: Record<string, unknown> = {
+	id: 123,
+	user: { name: "Alice", roles: ["admin", "editor"] },
+	multiline: "first\nsecond",
+};
+obj.self = obj;
+
+/** Builds a chain of nested nodes `depth` levels deep. */
+function deepTree(depth: number): PropertyTreeNode {
+	const root: PropertyTreeNode = { name: "root", type: "object", children: [] };
+	let node = root;
+	for (let i = 0; i < depth; i++) {
+		const child: PropertyTreeNode = { name: `n${i}`, type: "object", children: [] };
+		node.children?.push(child);
+		node = child;
+	}
+	return root;
+}
+
+/** Creates a WritableStream that decodes everything written to it. */
+function collectingStream(): { stream: WritableStream<Uint8Array>; text: () => string } {
+	const decoder = new TextDecoder();
+	let text = "";
+	const stream = new WritableStream<Uint8Array>({
+		write(chunk) {
+			text += decoder.decode(chunk, { stream: true });
+		},
+	});
+	return { stream, text: () => text };
+}
+
+describe("formatPropertyTreeLines", () => {
+	it("should produce the lines of formatPropertyTreeToString", () => {
+		const tree = buildPropertyTree(obj, 3);
+		for (const options of [undefined, { colors: true }, { connectors: "ascii" as const }]) {
+			assertEquals(
+				[...formatPropertyTreeLines(tree, options)],
+				formatPropertyTreeToString(tree, options).split("\n"),
+			);
+		}
+	});
+
+	it("should produce lines lazily", () => {
+		const lines = formatPropertyTreeLines(buildPropertyTree(obj, 3));
+		assertEquals(lines.next().value, "└─ root (object)");
+		assertEquals(lines.next().value, "   ├─ id (number): 123");
+	});
+
+	it("should format trees deeper than the call stack", () => {
+		const depth = 5_000;
+		let count = 0;
+		let last = "";
+		for (const line of formatPropertyTreeLines(deepTree(depth), { indentWidth: 2 })) {
+			count++;
+			last = line;
+		}
+		assertEquals(count, depth + 1);
+		assertEquals(last.endsWith(`└ n${depth - 1} (object)`), true);
+	});
+});
+
+describe("writePropertyTree", () => {
+	it("should write the formatted tree to a WritableStream", async () => {
+		const tree = buildPropertyTree(obj, 3);
+		const { stream, text } = collectingStream();
+		await writePropertyTree(tree, stream);
+		assertEquals(text(), formatPropertyTreeToString(tree) + "\n");
+
+		// The stream is left open for further writes.
+		const writer = stream.getWriter();
+		await writer.write(new TextEncoder().encode("done"));
+		await writer.close();
+		assertEquals(text().endsWith("\ndone"), true);
+	});
+
+	it("should write large trees in several chunks", async () => {
+		const tree = buildPropertyTree(Array.from({ length: 5000 }, (_, i) => `item ${i}`), {
+			maxChildren: null,
+		});
+		let chunks = 0;
+		const decoder = new TextDecoder();
+		let text = "";
+		await writePropertyTree(
+			tree,
+			new WritableStream({
+				write(chunk) {
+					chunks++;
+					text += decoder.decode(chunk, { stream: true });
+				},
+			}),
+		);
+		assertEquals(chunks > 1, true);
+		assertEquals(text, formatPropertyTreeToString(tree) + "\n");
+	});
+
+	it("should write the formatted tree to a file", async () => {
+		const tree = buildPropertyTree(obj, 3);
+		const path = await Deno.makeTempFile({ suffix: ".txt" });
+		try {
+			await writePropertyTree(tree, path, { colors: false });
+			assertEquals(await Deno.readTextFile(path), formatPropertyTreeToString(tree) + "\n");
+		} finally {
+			await Deno.remove(path);
+		}
+	});
+});
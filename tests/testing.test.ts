@@ -0,0 +1,21 @@
+import { describe, it } from "jsr:@std/testing/bdd";
+import { assertPropertyTreeSnapshot } from "../testing.ts";
+
+describe("assertPropertyTreeSnapshot", () => {
+	it("should snapshot the shape of a value", async (t) => {
+		const user: Record<string, unknown> = { name: "Alice", roles: ["admin"] };
+		user.self = user;
+		await assertPropertyTreeSnapshot(t, {
+			user,
+			[Symbol("session-1729")]: { id: 1 },
+			count: 2,
+		}, { includeSymbols: true });
+	});
+
+	it("should pass on build and format options", async (t) => {
+		await assertPropertyTreeSnapshot(t, { nested: { deep: { deeper: true } }, flag: false }, {
+			maxDepth: 2,
+			showTypes: false,
+		});
+	});
+});
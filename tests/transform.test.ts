@@ -0,0 +1,142 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import { describe, it } from "jsr:@std/testing/bdd";
+import {
+	buildPropertyTree,
+	collapseSingleChildChains,
+	filterPropertyTree,
+	formatPropertyTreeToString,
+	hasChildren,
+	InvalidDepthError,
+	isExpandableNode,
+	isReferenceNode,
+	mapPropertyTree,
+	type PropertyTreeNode,
+	type PropertyType,
+	prunePropertyTree,
+} from "../mod.ts";
+
+const data = {
+	user: { name: "Alice", roles: ["admin"] },
+	config: { server: { tls: { cert: "a.pem", key: "b.pem" } } },
+	log: () => {},
+};
+const obj: Record<string, unknown> = { ...data };
+obj.self = obj;
+
+describe("node type guards", () => {
+	it("should tell expandable, expanded and reference nodes apart", () => {
+		const tree = buildPropertyTree(obj, 2);
+		const kinds = tree.children?.map((node) => [
+			node.name,
+			isExpandableNode(node),
+			hasChildren(node),
+			isReferenceNode(node),
+		]);
+		assertEquals(kinds, [
+			["user", true, true, false],
+			["config", true, true, false],
+			["log", false, false, false],
+			["self", true, false, true],
+		]);
+		assertEquals(hasChildren(tree), true);
+	});
+
+	it("should narrow the node type", () => {
+		const tree: PropertyTreeNode = buildPropertyTree([1]);
+		if (hasChildren(tree)) {
+			const first: PropertyTreeNode = tree.children[0];
+			const type: PropertyType = first.type;
+			assertEquals(type, "number");
+		}
+	});
+});
+
+describe("mapPropertyTree", () => {
+	it("should transform every node bottom-up without changing the original", () => {
+		const tree = buildPropertyTree({ a: { b: 1 } });
+		const before = structuredClone(tree);
+		const seen: string[] = [];
+		const mapped = mapPropertyTree(tree, (node, { depth }) => {
+			seen.push(`${node.name}@${depth}`);
+			return { ...node, name: node.name.toUpperCase() };
+		});
+		assertEquals(seen, ["b@2", "a@1", "root@0"]);
+		assertEquals(
+			formatPropertyTreeToString(mapped),
+			`
+└─ ROOT (object)
+   └─ A (object)
+      └─ B (number): 1
+`.trim(),
+		);
+		assertEquals(tree, before);
+	});
+});
+
+describe("filterPropertyTree", () => {
+	it("should leave out failing nodes with their descendants", () => {
+		const tree = buildPropertyTree(obj, 4);
+		const filtered = filterPropertyTree(
+			tree,
+			(node) => node.name !== "config" && node.type !== "function",
+		);
+		assertEquals(filtered.children?.map((node) => node.name), ["user", "self"]);
+		assertEquals(tree.children?.length, 4);
+	});
+
+	it("should always keep the root", () => {
+		const filtered = filterPropertyTree(buildPropertyTree({ a: 1 }), () => false);
+		assertEquals(filtered.name, "root");
+		assertEquals(filtered.children, []);
+	});
+});
+
+describe("prunePropertyTree", () => {
+	it("should match a tree built with the same maxDepth", () => {
+		const tree = buildPropertyTree(data, 4);
+		for (const depth of [0, 1, 2]) {
+			assertEquals(prunePropertyTree(tree, depth), buildPropertyTree(data, depth));
+		}
+		assertEquals(tree, buildPropertyTree(data, 4));
+	});
+
+	it("should throw for invalid depths", () => {
+		const tree = buildPropertyTree(obj);
+		assertThrows(() => prunePropertyTree(tree, -1), InvalidDepthError);
+		assertThrows(() => prunePropertyTree(tree, 1.5), InvalidDepthError);
+	});
+});
+
+describe("collapseSingleChildChains", () => {
+	it("should merge chains of single expanded children", () => {
+		const tree = buildPropertyTree(
+			{ ...data, list: [[{ id: 1 }]], [Symbol("s")]: { only: { x: 1 } } },
+			{ maxDepth: 5, includeSymbols: true },
+		);
+		const collapsed = collapseSingleChildChains(tree);
+		assertEquals(
+			formatPropertyTreeToString(collapsed),
+			`
+└─ root (object)
+   ├─ user (object)
+   │  ├─ name (string): "Alice"
+   │  └─ roles (array)
+   │     └─ [0] (string): "admin"
+   ├─ config.server.tls (object)
+   │  ├─ cert (string): "a.pem"
+   │  └─ key (string): "b.pem"
+   ├─ log (function arrow log/0)
+   ├─ list[0][0] (object)
+   │  └─ id (number): 1
+   └─ [Symbol(s)].only (object)
+      └─ x (number): 1
+`.trim(),
+		);
+		assertEquals(collapsed.children?.[1].jsPath, "root.config.server.tls");
+	});
+
+	it("should not merge the root", () => {
+		const tree = buildPropertyTree({ a: { b: 1 } });
+		assertEquals(collapseSingleChildChains(tree).children?.[0].name, "a");
+	});
+});